@@ -0,0 +1,112 @@
+/**
+ * Prompt argument declarations and resolution
+ */
+
+import { PromptArgument } from './types.js';
+import { collectTemplateVariables, parseTemplate, PartialMap } from './template.js';
+
+/**
+ * Matches {{key}} and {key} placeholders, optionally escaped with a leading backslash
+ * Groups: 1 = escape, 2 = {{key}} name, 3 = escape, 4 = {key} name
+ * Used as a fallback when a body is not a valid template
+ */
+const PLACEHOLDER_PATTERN = /(\\)?\{\{\s*([A-Za-z_][\w-]*)\s*\}\}|(\\)?\{([A-Za-z_][\w-]*)\}/g;
+
+/**
+ * Normalize the `arguments:` block from YAML frontmatter
+ * Accepts a list of objects ({ name, description, required, default }) or bare names
+ */
+export function parseArgumentDeclarations(data: Record<string, unknown>): PromptArgument[] {
+  const raw = data.arguments;
+  if (!Array.isArray(raw)) return [];
+
+  const declared: PromptArgument[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of raw) {
+    let argument: PromptArgument | null = null;
+
+    if (typeof entry === 'string' && entry.trim()) {
+      argument = { name: entry.trim() };
+    } else if (entry && typeof entry === 'object' && typeof (entry as Record<string, unknown>).name === 'string') {
+      const { name, description, required, default: defaultValue } = entry as Record<string, unknown>;
+      argument = { name: (name as string).trim() };
+      if (typeof description === 'string') argument.description = description;
+      if (typeof required === 'boolean') argument.required = required;
+      if (defaultValue !== undefined && defaultValue !== null) argument.default = String(defaultValue);
+    }
+
+    // Skip malformed and duplicate entries, first declaration wins
+    if (!argument || !argument.name || seen.has(argument.name)) continue;
+    seen.add(argument.name);
+    declared.push(argument);
+  }
+
+  return declared;
+}
+
+/**
+ * Find argument names used in a prompt body, in order of first appearance
+ * Includes names used in conditions, loops and filtered output; escaped placeholders
+ * (\{{key}} or \{key}) are not treated as arguments. Pass the resolved includes
+ * to also infer arguments used by included prompts.
+ */
+export function inferArguments(body: string, partials?: PartialMap): PromptArgument[] {
+  let names: string[];
+
+  try {
+    // Tags that are not template syntax are literal text, not arguments
+    names = collectTemplateVariables(parseTemplate(body, { onInvalidTag: () => undefined }), partials);
+  } catch {
+    // Still advertise plain placeholders when the body has a template syntax error
+    const found = new Set<string>();
+    for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+      const escaped = match[1] ?? match[3];
+      const name = match[2] ?? match[4];
+      if (!escaped && name) {
+        found.add(name);
+      }
+    }
+    names = Array.from(found);
+  }
+
+  return names.map((name) => ({ name, required: false }));
+}
+
+/**
+ * Collect all arguments of a prompt: explicit frontmatter declarations first,
+ * followed by placeholders inferred from the body that were not declared.
+ * Inference can be disabled per prompt with `inferArguments: false`.
+ */
+export function collectPromptArguments(data: Record<string, unknown>, body: string, partials?: PartialMap): PromptArgument[] {
+  const declared = parseArgumentDeclarations(data);
+  if (data.inferArguments === false) return declared;
+
+  const declaredNames = new Set(declared.map((argument) => argument.name));
+  const inferred = inferArguments(body, partials).filter((argument) => !declaredNames.has(argument.name));
+
+  return [...declared, ...inferred];
+}
+
+/**
+ * Apply declared defaults to the provided arguments and collect missing required ones
+ */
+export function resolveArguments(
+  declared: PromptArgument[],
+  args: Record<string, string> = {}
+): { values: Record<string, string>; missing: string[] } {
+  const values: Record<string, string> = { ...args };
+  const missing: string[] = [];
+
+  for (const argument of declared) {
+    if (values[argument.name] !== undefined) continue;
+
+    if (argument.default !== undefined) {
+      values[argument.name] = argument.default;
+    } else if (argument.required) {
+      missing.push(argument.name);
+    }
+  }
+
+  return { values, missing };
+}
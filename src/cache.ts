@@ -2,18 +2,269 @@
  * Caching and file watching functionality for prompt metadata
  */
 
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import chokidar, { FSWatcher } from 'chokidar';
-import matter from 'gray-matter';
-import { PromptInfo, PromptMetadata } from './types.js';
+import { ValidateFunction } from 'ajv';
+import { DiagnosticsReport, PromptDiagnostic, PromptDirectory, PromptInfo, PromptMetadata, ShadowedPrompt } from './types.js';
+import { collectPromptArguments } from './arguments.js';
+import { collectPartialNames, parseTemplate, PartialMap, TemplateError, TemplateNode } from './template.js';
+import { IncludeError, PromptReader, resolveIncludes } from './includes.js';
+import { findSystemRoleDiagnostics } from './messages.js';
+import { DEFAULT_SEARCH_LIMIT, SearchIndex, SearchResult } from './searchIndex.js';
+import { computeFacets, matchesPromptQuery, parsePromptQuery, PromptFacets } from './promptQuery.js';
+import { compileUserSchema, parseFrontmatter, USER_SCHEMA_FILE, validateFrontmatter } from './validation.js';
+import {
+  findCandidateFiles,
+  findFileSources,
+  getPrimarySource,
+  isExcludedPath,
+  isVisibleRelativePath,
+  resolveSources,
+  ResolvedSource,
+} from './promptSources.js';
+import { CacheIndex, IndexedFile, getCacheIndexPath } from './cacheIndex.js';
+
+/**
+ * A frontmatter field that differs between two versions of a prompt
+ */
+export interface MetadataChange {
+  key: string;
+  /** Unset when the field was added */
+  before?: unknown;
+  /** Unset when the field was removed */
+  after?: unknown;
+}
+
+/**
+ * What changed in the cache: the prompt served for a name, a full reload, or a file that could not be loaded
+ * Prompt events are about the served prompt only, so a change to a shadowed file emits none
+ */
+export type PromptCacheEvent =
+  | { type: 'added'; name: string; prompt: PromptInfo }
+  | { type: 'updated'; name: string; prompt: PromptInfo; previous: PromptInfo; changes: MetadataChange[] }
+  | { type: 'removed'; name: string; previous: PromptInfo }
+  | { type: 'reloaded'; size: number }
+  | { type: 'error'; message: string; filePath?: string };
+
+export type PromptCacheEventListener = (event: PromptCacheEvent) => void;
+
+export interface PromptCacheOptions {
+  /** Directory the prompt index is kept in; without one every start parses every file */
+  cacheDir?: string;
+}
+
+/**
+ * Frontmatter fields that were added, removed or changed, ordered by key
+ */
+function diffMetadata(before: PromptMetadata, after: PromptMetadata): MetadataChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({
+      key,
+      ...(key in before && { before: before[key] }),
+      ...(key in after && { after: after[key] }),
+    }));
+}
+
+/** Watcher events are applied once no new event arrived for this long, so a burst is applied once */
+export const WATCH_DEBOUNCE_MS = 100;
+/** A file is reported once its size stayed the same for this long, so half-written files are never parsed */
+export const WATCH_STABILITY_MS = 200;
+
+/**
+ * Watcher events waiting to be applied, by path; only the last event of each path is kept
+ * A directory event makes the whole directory be compared with the disk
+ */
+type WatchEvent = 'add' | 'change' | 'unlink' | 'dir';
+
+interface WatchBatch {
+  paths: Map<string, WatchEvent>;
+  timer: NodeJS.Timeout | null;
+  applied: Promise<void>;
+  resolve: () => void;
+}
+
+/**
+ * Line of the include tag for a failed include, or of the first include when the failure
+ * happened inside an included prompt
+ */
+function findIncludeLine(body: string, startLine: number, includeName: string): number {
+  const lines = body.split('\n');
+  const includesName = (line: string) =>
+    line.split('{{>').slice(1).some((tag) => tag.trimStart().split(/[\s}]/)[0] === includeName);
+  const index = lines.findIndex(includesName);
+  const fallback = lines.findIndex((line) => line.includes('{{>'));
+  return startLine + Math.max(index !== -1 ? index : fallback, 0);
+}
+
+/**
+ * A prompt loaded from one source; rank is the source's precedence, 0 wins
+ */
+interface SourceEntry {
+  rank: number;
+  info: PromptInfo;
+}
 
 export class PromptCache {
+  /** The prompt served for each name */
   private cache = new Map<string, PromptInfo>();
+  /** Every source's prompt for each name, by precedence */
+  private entries = new Map<string, SourceEntry[]>();
+  private sources: ResolvedSource[];
   private watcher: FSWatcher | null = null;
   private isWatcherInitialized = false;
+  private watchBatch: WatchBatch | null = null;
+  /** Batches are applied one after the other */
+  private watchQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<PromptCacheEventListener>();
+  /** Set while the whole cache is rebuilt, which emits one reloaded event instead of one per prompt */
+  private isReloading = false;
+  /** Reads included prompts, set by the file operations that serve this cache */
+  private promptReader: PromptReader | null = null;
+  private searchIndex = new SearchIndex();
+  private userSchema: ValidateFunction | undefined;
+  private userSchemaSource: string | undefined;
+  private schemaError: string | undefined;
+  private index: CacheIndex | null;
+  /** What each loaded file provided, saved so the next start can skip unchanged files */
+  private indexedFiles = new Map<string, IndexedFile>();
+  private isIndexDirty = false;
+
+  /**
+   * sources is one prompts directory or several merged by namespace and priority
+   */
+  constructor(sources: string | PromptDirectory[], options: PromptCacheOptions = {}) {
+    this.sources = resolveSources(sources);
+    this.index = options.cacheDir ? new CacheIndex(getCacheIndexPath(options.cacheDir, this.promptsDir)) : null;
+  }
+
+  /**
+   * Directory of the primary source; relative file paths are resolved against it
+   */
+  private get promptsDir(): string {
+    return getPrimarySource(this.sources).root;
+  }
+
+  /**
+   * Ranked full-text search over name, title, description, tags and body
+   * Partials are never returned.
+   */
+  search(query: string, limit = DEFAULT_SEARCH_LIMIT): SearchResult[] {
+    return this.searchIndex.search(query, this.cache.size)
+      .filter((result) => this.cache.get(result.name)?.metadata.partial !== true)
+      .slice(0, limit);
+  }
+
+  /**
+   * Find prompts matching a query like `tags:security difficulty:advanced category:development`
+   * Remaining free text is matched with full-text search and orders the results by relevance,
+   * otherwise results are ordered by name. Partials are never returned.
+   */
+  query(query: string): PromptInfo[] {
+    const parsed = parsePromptQuery(query);
+    const candidates = parsed.text
+      ? this.searchIndex.search(parsed.text, this.cache.size)
+        .map((result) => this.cache.get(result.name))
+        .filter((prompt): prompt is PromptInfo => prompt !== undefined)
+      : this.getAllPrompts().sort((a, b) => a.name.localeCompare(b.name));
+
+    return candidates.filter((prompt) => prompt.metadata.partial !== true && matchesPromptQuery(prompt, parsed));
+  }
+
+  /**
+   * Count prompts per tag, category and difficulty, excluding partials
+   */
+  getFacets(): PromptFacets {
+    return computeFacets(this.getAllPrompts().filter((prompt) => prompt.metadata.partial !== true));
+  }
+
+  /**
+   * Frontmatter diagnostics of every prompt that has any, ordered by name
+   */
+  getDiagnostics(): DiagnosticsReport {
+    const prompts = this.getAllPrompts()
+      .filter((prompt) => prompt.diagnostics && prompt.diagnostics.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((prompt) => ({ name: prompt.name, diagnostics: prompt.diagnostics || [] }));
+
+    const shadowed = this.getShadowedPrompts();
+    return {
+      ...(this.schemaError !== undefined && { schemaError: this.schemaError }),
+      prompts,
+      ...(shadowed.length > 0 && { shadowed }),
+    };
+  }
+
+  /**
+   * Prompt names provided by more than one source, ordered by name
+   */
+  getShadowedPrompts(): ShadowedPrompt[] {
+    return Array.from(this.entries)
+      .filter(([, entries]) => entries.length > 1)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, [winner, ...others]]) => ({
+        name,
+        filePath: winner?.info.filePath ?? '',
+        shadowed: others.map((entry) => entry.info.filePath ?? ''),
+      }));
+  }
+
+  /**
+   * Resolve includes through the given reader, normally PromptFileOperations.readPrompt
+   * Without one, as for a cache used on its own, included files are read from the sources directly
+   */
+  setPromptReader(reader: PromptReader): void {
+    this.promptReader = reader;
+  }
+
+  /**
+   * Whether the whole cache is being rebuilt right now
+   */
+  isLoading(): boolean {
+    return this.isReloading;
+  }
 
-  constructor(private promptsDir: string) {}
+  /**
+   * Register a listener for typed cache events
+   * Returns a function that removes the listener
+   */
+  onEvent(listener: PromptCacheEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: PromptCacheEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Prompt cache listener failed:', errorMessage);
+      }
+    }
+  }
+
+  /**
+   * Resolve a file path relative to the primary source
+   */
+  private toAbsolutePath(filePath: string): string {
+    return path.resolve(this.promptsDir, filePath);
+  }
+
+  /**
+   * File path for log messages, relative to its source
+   */
+  private displayPath(filePath: string): string {
+    const [match] = findFileSources(this.sources, filePath);
+    // Directories are not prompts, so they are shown relative to the first source they are in
+    const root = match?.source.root ?? this.sources.find((source) => filePath.startsWith(source.root + path.sep))?.root;
+    return root ? path.relative(root, filePath) : filePath;
+  }
 
   /**
    * Get all cached prompts
@@ -56,8 +307,8 @@ export class PromptCache {
         const fullPath = path.join(dir, entry.name);
         const relativePath = path.relative(baseDir, fullPath);
         
-        // Skip hidden files and directories (like .git)
-        if (entry.name.startsWith('.')) {
+        // Skip hidden files and directories (like .git), the same rule the file watcher uses
+        if (!isVisibleRelativePath(entry.name)) {
           continue;
         }
         
@@ -77,69 +328,322 @@ export class PromptCache {
   }
 
   /**
-   * Load prompt metadata from a file
-   * fileName can be a relative path from promptsDir (e.g., "repo-name/prompt.md" or "prompt.md")
+   * Load prompt metadata and body from a file
+   * name is the prompt name of the file in its source (e.g. "repo-name/prompt" or "team/prompt")
    */
-  private async loadPromptMetadata(fileName: string): Promise<PromptInfo | null> {
-    const filePath = path.join(this.promptsDir, fileName);
+  private async loadPromptMetadata(filePath: string, name: string): Promise<{ info: PromptInfo; body: string; hash: string } | null> {
+    const fileName = this.displayPath(filePath);
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      const parsed = matter(content);
+      // Invalid frontmatter does not drop the prompt, it is kept and flagged with diagnostics
+      const parsed = parseFrontmatter(content);
+      const diagnostics = parsed.diagnostics.length > 0
+        ? [...parsed.diagnostics]
+        : validateFrontmatter(parsed.data, content, this.userSchema);
       
-      // Use the file name (without extension) as the prompt name
-      // For nested files, use the full relative path without .md extension
-      const name = fileName.replace(/\.md$/, '');
+      const bodyStartLine = content.split('\n').length - parsed.content.split('\n').length + 1;
+      const { partials, includes, templateDiagnostics } = await this.loadIncludes(name, parsed.content, bodyStartLine);
+      diagnostics.push(...templateDiagnostics, ...findSystemRoleDiagnostics(parsed.content, bodyStartLine));
       
-      return {
+      const info: PromptInfo = {
         name,
         metadata: parsed.data as PromptMetadata,
-        preview: parsed.content.substring(0, 100).replace(/\n/g, ' ').trim() + '...'
+        preview: parsed.content.substring(0, 100).replace(/\n/g, ' ').trim() + '...',
+        arguments: collectPromptArguments(parsed.data, parsed.content, partials),
+        includes,
+        filePath,
+        ...(diagnostics.length > 0 && { diagnostics })
       };
+      this.logDiagnostics(info);
+      return { info, body: parsed.content, hash: createHash('sha1').update(content).digest('hex') };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Failed to load prompt metadata for ${fileName}:`, errorMessage);
+      this.emit({ type: 'error', message: errorMessage, filePath });
       return null;
     }
   }
 
+  private logDiagnostics(info: PromptInfo): void {
+    if (info.diagnostics && info.diagnostics.length > 0 && info.filePath) {
+      const details = info.diagnostics.map((d) => `line ${d.line}: ${d.message}`).join('; ');
+      console.error(`Prompt ${this.displayPath(info.filePath)} has problems:`, details);
+    }
+  }
+
+  /**
+   * Resolve the prompts included by a prompt body
+   * Template and include errors are recorded as diagnostics; every referenced name is still
+   * returned so the prompt is refreshed once a missing include appears.
+   */
+  private async loadIncludes(
+    name: string,
+    body: string,
+    startLine: number
+  ): Promise<{ partials: PartialMap; includes: string[]; templateDiagnostics: PromptDiagnostic[] }> {
+    const partials: PartialMap = new Map();
+    const templateDiagnostics: PromptDiagnostic[] = [];
+    let nodes: TemplateNode[];
+    try {
+      // Tags that are not template syntax still render, as literal text, but are reported
+      nodes = parseTemplate(body, {
+        startLine,
+        onInvalidTag: (error) => templateDiagnostics.push({
+          source: 'template',
+          message: `${error.reason}, rendered as literal text`,
+          line: error.line,
+          column: error.column,
+        }),
+      });
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      const diagnostic: PromptDiagnostic = { source: 'template', message: error.reason, line: error.line, column: error.column };
+      return { partials, includes: [], templateDiagnostics: [diagnostic] };
+    }
+
+    try {
+      await resolveIncludes(
+        nodes,
+        (includeName) => (this.promptReader ? this.promptReader(includeName) : this.readPromptFile(includeName)),
+        [name],
+        partials
+      );
+    } catch (error) {
+      // Keep the includes that were resolved before the failure
+      if (!(error instanceof IncludeError)) throw error;
+      templateDiagnostics.push({ source: 'template', message: error.message, line: findIncludeLine(body, startLine, error.includeName) });
+    }
+
+    const includes = new Set(collectPartialNames(nodes));
+    for (const partialNodes of partials.values()) {
+      collectPartialNames(partialNodes).forEach((includeName) => includes.add(includeName));
+    }
+    return { partials, includes: Array.from(includes), templateDiagnostics };
+  }
+
+  /**
+   * Read an included prompt from the source that serves its name, when no prompt reader is set
+   */
+  private async readPromptFile(name: string): Promise<string> {
+    const candidates = findCandidateFiles(this.sources, name);
+    for (const { filePath } of candidates) {
+      try {
+        return await fs.readFile(filePath, 'utf-8');
+      } catch {
+        // Not in this source, try the next one
+      }
+    }
+    throw new Error(`Prompt "${name}" not found`);
+  }
+
+  /**
+   * Reload every cached prompt that includes the changed prompts, directly or indirectly
+   */
+  private async propagateChange(names: string[]): Promise<void> {
+    for (const name of names) {
+      const dependents = this.getAllPrompts().filter(
+        (prompt) => prompt.name !== name && prompt.includes?.includes(name)
+      );
+      await Promise.all(
+        dependents.map(async (prompt) => {
+          if (prompt.filePath) {
+            await this.updateCacheForFile(prompt.filePath);
+          }
+        })
+      );
+    }
+  }
+
+  /**
+   * Reload a file right away instead of waiting for the file watcher
+   * Used after the server itself wrote the file, so the next request sees the change
+   * filePath can be absolute or relative to the primary source
+   */
+  async refreshFile(filePath: string): Promise<void> {
+    await this.propagateChange(await this.updateCacheForFile(filePath));
+  }
+
+  /**
+   * Drop a deleted file right away instead of waiting for the file watcher
+   */
+  async removeFile(filePath: string): Promise<void> {
+    await this.propagateChange(await this.removeFromCache(filePath));
+  }
+
   /**
    * Update cache for a specific file
-   * filePath can be an absolute path or relative path from promptsDir
+   * filePath can be an absolute path or relative path from the primary source
+   * Returns the names of the prompts the file provides
    */
-  private async updateCacheForFile(filePath: string): Promise<void> {
-    if (!filePath.endsWith('.md')) return;
-    
-    // Convert absolute path to relative path if needed
-    let relativePath: string;
-    if (path.isAbsolute(filePath)) {
-      relativePath = path.relative(this.promptsDir, filePath);
+  private async updateCacheForFile(filePath: string): Promise<string[]> {
+    if (!filePath.endsWith('.md')) return [];
+
+    const absolutePath = this.toAbsolutePath(filePath);
+    const matches = findFileSources(this.sources, absolutePath);
+    // Taken before reading, so a write in between makes the next start parse the file again
+    const stats = await fs.stat(absolutePath).catch(() => null);
+    const loaded = await Promise.all(
+      matches.map(async ({ source, name }) => {
+        const result = await this.loadPromptMetadata(absolutePath, name);
+        if (result) {
+          this.setEntry(source.rank, result.info, result.body);
+        }
+        return result && { rank: source.rank, ...result };
+      })
+    );
+
+    // A file that failed to load is not indexed, so the next start tries it again
+    const results = loaded.filter((result): result is NonNullable<typeof result> => result !== null);
+    const [first] = results;
+    if (stats && first && results.length === loaded.length) {
+      this.indexedFiles.set(absolutePath, {
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        hash: first.hash,
+        body: first.body,
+        prompts: results.map(({ rank, info }) => ({ rank, info })),
+      });
     } else {
-      relativePath = filePath;
+      this.indexedFiles.delete(absolutePath);
     }
-    
-    const metadata = await this.loadPromptMetadata(relativePath);
-    if (metadata) {
-      this.cache.set(metadata.name, metadata);
+    this.isIndexDirty = true;
+    return matches.map(({ name }) => name);
+  }
+
+  /**
+   * The indexed file if the file on disk still has its content: same size and mtime,
+   * or the same hash when only the mtime changed (e.g. after a fresh checkout)
+   */
+  private async checkIndexedFile(filePath: string, indexed: IndexedFile): Promise<IndexedFile | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size !== indexed.size) return null;
+      if (stats.mtimeMs === indexed.mtimeMs) return indexed;
+
+      const hash = createHash('sha1').update(await fs.readFile(filePath)).digest('hex');
+      if (hash !== indexed.hash) return null;
+      this.isIndexDirty = true;
+      return { ...indexed, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
     }
   }
 
+  /**
+   * Identifies the sources and schema the index was built with; when they change every file is parsed again
+   */
+  private getIndexKey(): string {
+    const sources = this.sources.map(({ root, namespace, priority, rank, excludes }) => ({ root, namespace, priority, rank, excludes }));
+    return createHash('sha1').update(JSON.stringify({ sources, schema: this.userSchemaSource ?? null })).digest('hex');
+  }
+
+  /**
+   * Save the index if it changed since it was loaded or last saved
+   */
+  private async saveIndex(): Promise<void> {
+    if (!this.index || !this.isIndexDirty) return;
+    this.isIndexDirty = false;
+    await this.index.save(this.getIndexKey(), this.indexedFiles);
+  }
+
+  /**
+   * Store a source's prompt; it is served if no source with higher precedence has the name
+   */
+  private setEntry(rank: number, info: PromptInfo, body: string, previous = this.cache.get(info.name)): void {
+    const entries = (this.entries.get(info.name) || []).filter((entry) => entry.rank !== rank);
+    entries.push({ rank, info });
+    entries.sort((a, b) => a.rank - b.rank);
+    this.entries.set(info.name, entries);
+
+    if (entries[0]?.rank === rank) {
+      this.cache.set(info.name, info);
+      this.searchIndex.add({
+        name: info.name,
+        ...(typeof info.metadata.title === 'string' && { title: info.metadata.title }),
+        ...(typeof info.metadata.description === 'string' && { description: info.metadata.description }),
+        ...(Array.isArray(info.metadata.tags) && { tags: info.metadata.tags.map(String) }),
+        body,
+      });
+      this.emitServed(info, previous);
+    }
+  }
+
+  /**
+   * Emit the event for a newly served prompt, unless the whole cache is being rebuilt
+   */
+  private emitServed(prompt: PromptInfo, previous: PromptInfo | undefined): void {
+    if (this.isReloading) return;
+    this.emit(previous
+      ? { type: 'updated', name: prompt.name, prompt, previous, changes: diffMetadata(previous.metadata, prompt.metadata) }
+      : { type: 'added', name: prompt.name, prompt });
+  }
+
   /**
    * Remove a file from cache
-   * filePath can be an absolute path or relative path from promptsDir
+   * filePath can be an absolute path or relative path from the primary source
+   * A prompt it shadowed is served again. Returns the affected prompt names.
    */
-  private async removeFromCache(filePath: string): Promise<void> {
-    if (!filePath.endsWith('.md')) return;
-    
-    // Convert absolute path to relative path if needed
-    let relativePath: string;
-    if (path.isAbsolute(filePath)) {
-      relativePath = path.relative(this.promptsDir, filePath);
-    } else {
-      relativePath = filePath;
+  private async removeFromCache(filePath: string): Promise<string[]> {
+    if (!filePath.endsWith('.md')) return [];
+
+    const absolutePath = this.toAbsolutePath(filePath);
+    const matches = findFileSources(this.sources, absolutePath);
+    this.indexedFiles.delete(absolutePath);
+    this.isIndexDirty = true;
+    for (const { source, name } of matches) {
+      const entries = (this.entries.get(name) || []).filter((entry) => entry.rank !== source.rank);
+      const previous = this.cache.get(name);
+      if (entries.length === 0) {
+        this.entries.delete(name);
+        this.cache.delete(name);
+        this.searchIndex.remove(name);
+        if (previous && !this.isReloading) {
+          this.emit({ type: 'removed', name, previous });
+        }
+        continue;
+      }
+
+      this.entries.set(name, entries);
+      const next = entries[0];
+      if (next && previous !== next.info) {
+        // Serve the shadowed prompt, reloading it because its body is needed for the search index
+        this.cache.set(name, next.info);
+        this.searchIndex.remove(name);
+        const loaded = next.info.filePath ? await this.loadPromptMetadata(next.info.filePath, name) : null;
+        if (loaded) {
+          this.setEntry(next.rank, loaded.info, loaded.body, previous);
+        } else {
+          this.emitServed(next.info, previous);
+        }
+      }
+    }
+    return matches.map(({ name }) => name);
+  }
+
+  /**
+   * Load the optional user-supplied JSON Schema from the primary source
+   * A broken schema is reported in the diagnostics and otherwise ignored
+   */
+  private async loadUserSchema(): Promise<void> {
+    this.userSchema = undefined;
+    this.userSchemaSource = undefined;
+    this.schemaError = undefined;
+
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(this.promptsDir, USER_SCHEMA_FILE), 'utf-8');
+    } catch {
+      return;
+    }
+    this.userSchemaSource = text;
+
+    try {
+      this.userSchema = compileUserSchema(JSON.parse(text));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.schemaError = `Invalid ${USER_SCHEMA_FILE}: ${errorMessage}`;
+      console.error(this.schemaError);
     }
-    
-    const name = relativePath.replace(/\.md$/, '');
-    this.cache.delete(name);
   }
 
   /**
@@ -158,69 +662,262 @@ export class PromptCache {
    */
   async initializeCache(): Promise<void> {
     await this.ensurePromptsDir();
+    await this.loadUserSchema();
+    const previousSize = this.cache.size;
     
     try {
-      // Recursively find all markdown files
-      const mdFiles = await this.findMarkdownFiles(this.promptsDir);
+      // Recursively find all markdown files in every source
+      const mdFiles = (await Promise.all(
+        this.sources.map(async (source) =>
+          (await this.findMarkdownFiles(source.root))
+            .map((file) => path.join(source.root, file))
+            .filter((file) => !isExcludedPath(source, file))
+        )
+      )).flat();
       
       // Clear existing cache
       this.cache.clear();
-      
-      // Load all prompt metadata
+      this.entries.clear();
+      this.searchIndex.clear();
+      this.indexedFiles.clear();
+      this.isIndexDirty = false;
+      this.isReloading = true;
+
+      // Files unchanged since the index was saved are not parsed again
+      const saved = this.index ? await this.index.load(this.getIndexKey()) : new Map<string, IndexedFile>();
+      const restored = new Map<string, IndexedFile>();
+      const stale: string[] = [];
       await Promise.all(
         mdFiles.map(async (file) => {
+          const indexed = saved.get(file);
+          const unchanged = indexed ? await this.checkIndexedFile(file, indexed) : null;
+          if (unchanged) {
+            restored.set(file, unchanged);
+          } else {
+            stale.push(file);
+          }
+        })
+      );
+
+      // A prompt is parsed again when a prompt it includes changed, appeared or disappeared
+      const removed = Array.from(saved.keys()).filter((file) => !mdFiles.includes(file));
+      const changedNames = new Set(
+        [...stale, ...removed].flatMap((file) => findFileSources(this.sources, file).map(({ name }) => name))
+      );
+      for (const [file, indexed] of restored) {
+        if (indexed.prompts.some(({ info }) => info.includes?.some((name) => changedNames.has(name)))) {
+          restored.delete(file);
+          stale.push(file);
+        }
+      }
+      if (removed.length > 0) {
+        this.isIndexDirty = true;
+      }
+
+      for (const [file, indexed] of restored) {
+        for (const { rank, info } of indexed.prompts) {
+          this.setEntry(rank, info, indexed.body);
+          this.logDiagnostics(info);
+        }
+        this.indexedFiles.set(file, indexed);
+      }
+
+      // Load the metadata of new and changed files
+      await Promise.all(
+        stale.map(async (file) => {
           await this.updateCacheForFile(file);
         })
       );
       
       console.error(`Loaded ${this.cache.size} prompts into cache`);
+      if (this.index && restored.size > 0) {
+        console.error(`Parsed ${stale.length} changed prompt files, ${restored.size} unchanged from ${this.index.filePath}`);
+      }
+      await this.saveIndex();
+      for (const { name, filePath, shadowed } of this.getShadowedPrompts()) {
+        console.error(`Prompt "${name}" from ${filePath} shadows ${shadowed.join(', ')}`);
+      }
+
+      this.isReloading = false;
+      // Loading an empty library into an empty cache is not a change
+      if (previousSize > 0 || this.cache.size > 0) {
+        this.emit({ type: 'reloaded', size: this.cache.size });
+      }
     } catch (error) {
+      this.isReloading = false;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Failed to initialize cache:', errorMessage);
+      this.emit({ type: 'error', message: `Failed to initialize cache: ${errorMessage}` });
+    }
+  }
+
+  /**
+   * Whether the watcher should skip a path: hidden below every source it is in
+   * Only the part below the source counts, so a source inside a hidden directory is still watched
+   */
+  private isIgnoredPath(filePath: string): boolean {
+    const relativePaths = this.sources
+      .map((source) => path.relative(source.root, filePath))
+      .filter((relativePath) => !relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+    return relativePaths.length > 0
+      && relativePaths.every((relativePath) => relativePath !== '' && !isVisibleRelativePath(relativePath));
+  }
+
+  /**
+   * Whether a file is loaded for at least one of its sources
+   */
+  private isCachedFile(filePath: string): boolean {
+    return findFileSources(this.sources, filePath).some(({ source, name }) =>
+      (this.entries.get(name) || []).some((entry) => entry.rank === source.rank)
+    );
+  }
+
+  /**
+   * Cached files inside a directory
+   */
+  private getCachedFilesIn(dir: string): string[] {
+    const files = new Set<string>();
+    for (const entries of this.entries.values()) {
+      for (const { info } of entries) {
+        if (info.filePath && info.filePath.startsWith(dir + path.sep)) {
+          files.add(info.filePath);
+        }
+      }
+    }
+    return Array.from(files);
+  }
+
+  /**
+   * Queue a watcher event; resolves once the batch it ended up in is applied
+   */
+  private queueWatchEvent(filePath: string, event: WatchEvent): Promise<void> {
+    let batch = this.watchBatch;
+    if (!batch) {
+      let resolve: () => void = () => {};
+      const applied = new Promise<void>((done) => { resolve = done; });
+      batch = { paths: new Map(), timer: null, applied, resolve };
+      this.watchBatch = batch;
+    }
+
+    if (batch.paths.get(filePath) !== 'dir') {
+      batch.paths.set(filePath, event);
+    }
+    if (batch.timer) {
+      clearTimeout(batch.timer);
+    }
+    const current = batch;
+    batch.timer = setTimeout(() => {
+      this.watchBatch = null;
+      this.watchQueue = this.watchQueue.then(() => this.applyWatchBatch(current.paths));
+      void this.watchQueue.then(current.resolve);
+    }, WATCH_DEBOUNCE_MS);
+    return batch.applied;
+  }
+
+  /**
+   * Apply a batch of watcher events
+   * Only the last event of a path counts, so an atomic save (delete and re-create) is a single update
+   */
+  private async applyWatchBatch(paths: Map<string, WatchEvent>): Promise<void> {
+    const dirs = Array.from(paths).filter(([, event]) => event === 'dir').map(([dir]) => dir);
+    // A directory event covers the files below it
+    const files = Array.from(paths)
+      .filter(([filePath, event]) => event !== 'dir' && !dirs.some((dir) => filePath.startsWith(dir + path.sep)));
+
+    try {
+      for (const dir of dirs) {
+        await this.applyDirectory(dir);
+      }
+      for (const [filePath, event] of files) {
+        await this.applyFile(filePath, event);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to apply file changes:', errorMessage);
+      this.emit({ type: 'error', message: `Failed to apply file changes: ${errorMessage}` });
+    }
+  }
+
+  private async applyFile(filePath: string, event: WatchEvent): Promise<void> {
+    if (!filePath.endsWith('.md')) return;
+
+    // A file written and deleted again within a batch is gone by now
+    const exists = event !== 'unlink' && await fs.stat(filePath).then((stats) => stats.isFile(), () => false);
+    const cached = this.isCachedFile(filePath);
+    if (exists) {
+      console.error(`Prompt ${cached ? 'updated' : 'added'}: ${this.displayPath(filePath)}`);
+      await this.refreshFile(filePath);
+    } else if (cached) {
+      console.error(`Prompt deleted: ${this.displayPath(filePath)}`);
+      await this.removeFile(filePath);
+    }
+  }
+
+  /**
+   * A directory added, removed or renamed: load the prompts now in it and drop the ones that are gone
+   */
+  private async applyDirectory(dir: string): Promise<void> {
+    const onDisk = (await this.findMarkdownFiles(dir)).map((file) => path.join(dir, file));
+    const gone = this.getCachedFilesIn(dir).filter((filePath) => !onDisk.includes(filePath));
+    if (onDisk.length === 0 && gone.length === 0) return;
+
+    console.error(`Prompt folder ${onDisk.length > 0 ? 'updated' : 'deleted'}: ${this.displayPath(dir)}`);
+    for (const filePath of gone) {
+      await this.removeFile(filePath);
+    }
+    for (const filePath of onDisk) {
+      await this.refreshFile(filePath);
     }
   }
 
   /**
    * Initialize file watcher to monitor changes recursively
+   * Events are coalesced and applied in batches (see applyWatchBatch)
    */
   initializeFileWatcher(): void {
     if (this.isWatcherInitialized) return;
     
-    // Watch all .md files recursively
-    this.watcher = chokidar.watch(path.join(this.promptsDir, '**/*.md'), {
-      ignored: /^\./, // ignore dotfiles
+    // Watch the source directories, so directory events are reported too
+    const roots = this.sources.map((source) => source.root);
+    this.watcher = chokidar.watch(roots.length === 1 ? roots[0] as string : roots, {
+      ignored: (filePath: string) => this.isIgnoredPath(filePath),
       persistent: true,
-      ignoreInitial: true // don't fire events for initial scan
+      ignoreInitial: true, // don't fire events for initial scan
+      atomic: true,
+      awaitWriteFinish: { stabilityThreshold: WATCH_STABILITY_MS, pollInterval: WATCH_STABILITY_MS / 4 },
     });
 
     this.watcher
-      .on('add', async (filePath: string) => {
-        const relativePath = path.relative(this.promptsDir, filePath);
-        console.error(`Prompt added: ${relativePath}`);
-        await this.updateCacheForFile(filePath);
-      })
-      .on('change', async (filePath: string) => {
-        const relativePath = path.relative(this.promptsDir, filePath);
-        console.error(`Prompt updated: ${relativePath}`);
-        await this.updateCacheForFile(filePath);
-      })
-      .on('unlink', async (filePath: string) => {
-        const relativePath = path.relative(this.promptsDir, filePath);
-        console.error(`Prompt deleted: ${relativePath}`);
-        await this.removeFromCache(filePath);
-      })
+      .on('add', (filePath: string) => this.queueWatchEvent(filePath, 'add'))
+      .on('change', (filePath: string) => this.queueWatchEvent(filePath, 'change'))
+      .on('unlink', (filePath: string) => this.queueWatchEvent(filePath, 'unlink'))
+      .on('addDir', (dir: string) => this.queueWatchEvent(dir, 'dir'))
+      .on('unlinkDir', (dir: string) => this.queueWatchEvent(dir, 'dir'))
       .on('error', (error: Error) => {
         console.error('File watcher error:', error);
+        this.emit({ type: 'error', message: `File watcher error: ${error.message}` });
       });
 
     this.isWatcherInitialized = true;
-    console.error('File watcher initialized for prompts directory (recursive)');
+    console.error(this.sources.length > 1
+      ? `File watcher initialized for ${this.sources.length} prompt directories`
+      : 'File watcher initialized for prompts directory');
   }
 
   /**
    * Stop file watcher and cleanup
    */
   async cleanup(): Promise<void> {
+    // Pending events are dropped; the index makes the next start pick up what they would have changed
+    if (this.watchBatch) {
+      if (this.watchBatch.timer) {
+        clearTimeout(this.watchBatch.timer);
+      }
+      this.watchBatch.resolve();
+      this.watchBatch = null;
+    }
+    await this.watchQueue;
+    await this.saveIndex();
     if (this.watcher) {
       await this.watcher.close();
       this.watcher = null;
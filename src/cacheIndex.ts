@@ -0,0 +1,153 @@
+/**
+ * Persistent prompt index - what the cache loaded from each file, kept in the user's cache directory
+ * so a restart only parses the files that changed since the last run
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { PromptInfo } from './types.js';
+
+/**
+ * Bumped whenever what is stored, or how prompts are parsed, changes; older indexes are rebuilt
+ */
+export const CACHE_INDEX_VERSION = 2;
+
+/**
+ * A prompt file as it was when it was parsed
+ */
+export interface IndexedFile {
+  size: number;
+  mtimeMs: number;
+  /** sha1 of the file content */
+  hash: string;
+  /** Markdown body, for the search index */
+  body: string;
+  /** One entry per source the file is in, by source rank */
+  prompts: Array<{ rank: number; info: PromptInfo }>;
+}
+
+interface CacheIndexFile {
+  version: number;
+  /** Sources and schema the index was built with */
+  key: string;
+  /** Keyed by absolute file path */
+  files: Record<string, IndexedFile>;
+}
+
+/**
+ * YAML dates are kept as Date objects in the frontmatter, so they are tagged to survive JSON
+ */
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  return original instanceof Date ? { $date: original.toISOString() } : value;
+}
+
+function reviveDates(_key: string, value: unknown): unknown {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    const date = (value as { $date?: unknown }).$date;
+    if (keys.length === 1 && typeof date === 'string') {
+      return new Date(date);
+    }
+  }
+  return value;
+}
+
+/**
+ * Where the index of a prompts directory is kept in the cache directory, one file per prompts
+ * directory, so synced and read-only prompt folders are never written to
+ */
+export function getCacheIndexPath(cacheDir: string, promptsDir: string): string {
+  const name = createHash('sha1').update(path.resolve(promptsDir)).digest('hex').slice(0, 16);
+  return path.join(cacheDir, `${name}.json`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a saved entry has everything the cache reads from it; anything else is parsed again
+ */
+function isIndexedFile(value: unknown): value is IndexedFile {
+  return (
+    isRecord(value) &&
+    typeof value.size === 'number' &&
+    typeof value.mtimeMs === 'number' &&
+    typeof value.hash === 'string' &&
+    typeof value.body === 'string' &&
+    Array.isArray(value.prompts) &&
+    value.prompts.every(
+      (prompt) =>
+        isRecord(prompt) &&
+        typeof prompt.rank === 'number' &&
+        isRecord(prompt.info) &&
+        typeof prompt.info.name === 'string' &&
+        isRecord(prompt.info.metadata) &&
+        (prompt.info.includes === undefined || Array.isArray(prompt.info.includes)) &&
+        (prompt.info.diagnostics === undefined || Array.isArray(prompt.info.diagnostics))
+    )
+  );
+}
+
+export class CacheIndex {
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Files of the saved index, or none when it is missing, unreadable, from another version
+   * or built for other sources; the cache then parses every file and the index is rebuilt.
+   * Malformed entries are left out, so only those files are parsed again
+   */
+  async load(key: string): Promise<Map<string, IndexedFile>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return new Map();
+    }
+
+    try {
+      const saved = JSON.parse(content, reviveDates) as Partial<CacheIndexFile>;
+      if (saved.version !== CACHE_INDEX_VERSION) {
+        console.error(`Rebuilding ${this.filePath}: format version ${String(saved.version)} is not ${CACHE_INDEX_VERSION}`);
+        return new Map();
+      }
+      if (saved.key !== key) {
+        console.error(`Rebuilding ${this.filePath}: prompt sources or schema changed`);
+        return new Map();
+      }
+      if (typeof saved.files !== 'object' || saved.files === null) {
+        console.error(`Rebuilding ${this.filePath}: unsupported format`);
+        return new Map();
+      }
+      const entries = Object.entries(saved.files);
+      const valid = entries.filter(([, file]) => isIndexedFile(file));
+      if (valid.length < entries.length) {
+        console.error(`Ignoring ${entries.length - valid.length} malformed entries in ${this.filePath}`);
+      }
+      return new Map(valid);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Rebuilding ${this.filePath}: ${errorMessage}`);
+      return new Map();
+    }
+  }
+
+  /**
+   * Write the index, through a temporary file so a crash never leaves half an index behind
+   */
+  async save(key: string, files: Map<string, IndexedFile>): Promise<void> {
+    const index: CacheIndexFile = { version: CACHE_INDEX_VERSION, key, files: Object.fromEntries(files) };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(index, replaceDates), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error writing ${this.filePath}: ${errorMessage}`);
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+}
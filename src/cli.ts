@@ -0,0 +1,290 @@
+/**
+ * Command line interface - runs library operations without an MCP client, e.g. in CI
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { PromptCache } from './cache.js';
+import { PromptFileOperations } from './fileOperations.js';
+import { PromptHandlers } from './prompts.js';
+import { summarizePrompt } from './promptQuery.js';
+import { DiagnosticsReport, PromptDirectory } from './types.js';
+
+/**
+ * Commands handled by runCli; `serve` (the default) is handled by the server entry point
+ */
+export const CLI_COMMANDS = ['list', 'show', 'render', 'validate', 'lint', 'help'];
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: prompts-mcp-server [command] [options]
+
+Commands:
+  serve [dir]                Start the MCP server (default), on stdio or MCP_TRANSPORT=http
+      --frozen               Sync GitHub prompts to the commit in prompts.lock, fail if it cannot
+  list [dir]                 List prompts
+      --tag <tag>            Only prompts with this tag (repeatable, all must match)
+      --category <name>      Only prompts in this category
+      --difficulty <level>   Only prompts with this difficulty
+      --query <text>         Only prompts matching these search terms
+  show <name>                Print the raw markdown of a prompt
+  render <name>              Render a prompt with its arguments and includes
+      --arg <key=value>      Argument value (repeatable)
+  validate [dir]             Check frontmatter against the built-in schema and prompt-schema.json
+  lint [dir]                 Like validate, and also check template syntax and includes
+
+Options:
+  --dir <path>               Prompts directory (default: the sources from the config file, PROMPTS_FOLDER_PATH or the bundled prompts)
+  --config <path>            Config file (default: prompts-mcp.config.(json|yaml) in the working or home directory)
+  --json                     Print machine-readable JSON
+  --verbose                  Show server log messages
+  -h, --help                 Show this help
+
+Exit codes: 0 success, 1 problems found or command failed, 2 invalid usage`;
+
+const defaultOutput: CliOutput = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+class UsageError extends Error {}
+
+type CliValues = {
+  dir?: string;
+  json?: boolean;
+  verbose?: boolean;
+  help?: boolean;
+  tag?: string[];
+  category?: string;
+  difficulty?: string;
+  query?: string;
+  arg?: string[];
+};
+
+/**
+ * Run a CLI command and return the process exit code
+ * argv excludes the node executable and script, e.g. ['lint', './prompts', '--json']
+ */
+export async function runCli(argv: string[], defaultSources: string | PromptDirectory[], output: CliOutput = defaultOutput): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        dir: { type: 'string' },
+        json: { type: 'boolean' },
+        verbose: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        tag: { type: 'string', multiple: true },
+        category: { type: 'string' },
+        difficulty: { type: 'string' },
+        query: { type: 'string' },
+        arg: { type: 'string', multiple: true },
+      },
+    }));
+  } catch (error) {
+    output.stderr(`${error instanceof Error ? error.message : 'Invalid arguments'}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const [command = 'help', target] = positionals;
+  if (values.help || command === 'help') {
+    output.stdout(USAGE);
+    return EXIT_OK;
+  }
+  if (!CLI_COMMANDS.includes(command)) {
+    output.stderr(`Unknown command "${command}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  // The library commands take a directory, show and render take a prompt name
+  const takesName = command === 'show' || command === 'render';
+  const dir = values.dir ?? (takesName ? undefined : target);
+  // An explicit directory is used on its own, otherwise every configured source
+  const sources: PromptDirectory[] = dir
+    ? [{ path: dir }]
+    : typeof defaultSources === 'string' ? [{ path: defaultSources }] : defaultSources;
+  const promptsDir = path.resolve(sources[0]?.path ?? '.');
+
+  // Server log messages go to stderr and are noise for CLI users unless asked for
+  const originalConsoleError = console.error;
+  if (!values.verbose) {
+    console.error = () => {};
+  }
+
+  const cache = new PromptCache(sources);
+  try {
+    const stats = await fs.stat(promptsDir).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Prompts directory not found: ${promptsDir}`);
+    }
+
+    await cache.initializeCache();
+    const fileOps = new PromptFileOperations(sources, cache);
+
+    switch (command) {
+      case 'list':
+        return await listCommand(fileOps, values, output);
+      case 'show':
+        return await showCommand(fileOps, requireName(target), values, output);
+      case 'render':
+        return await renderCommand(new PromptHandlers(fileOps), requireName(target), values, output);
+      default:
+        return await checkCommand(command === 'lint', cache, await fileOps.getDiagnostics(), values, output);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof UsageError) {
+      output.stderr(`${errorMessage}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    output.stderr(`Error: ${errorMessage}`);
+    return EXIT_FAILURE;
+  } finally {
+    console.error = originalConsoleError;
+    await cache.cleanup();
+  }
+}
+
+function requireName(name: string | undefined): string {
+  if (!name) {
+    throw new UsageError('Missing prompt name');
+  }
+  return name;
+}
+
+/**
+ * Quote a facet filter value for the query syntax
+ */
+function filterValue(value: string): string {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+/**
+ * list: prompts matching the facet filters, ordered by name
+ */
+async function listCommand(fileOps: PromptFileOperations, values: CliValues, output: CliOutput): Promise<number> {
+  const query = [
+    ...(values.tag || []).map((tag) => `tags:${filterValue(tag)}`),
+    values.category !== undefined ? `category:${filterValue(values.category)}` : '',
+    values.difficulty !== undefined ? `difficulty:${filterValue(values.difficulty)}` : '',
+    values.query ?? '',
+  ].filter(Boolean).join(' ');
+
+  const prompts = (await fileOps.queryPrompts(query)).map(summarizePrompt);
+
+  if (values.json) {
+    output.stdout(JSON.stringify(prompts, null, 2));
+    return EXIT_OK;
+  }
+
+  const width = Math.max(0, ...prompts.map((prompt) => prompt.name.length));
+  for (const prompt of prompts) {
+    output.stdout(`${prompt.name.padEnd(width)}  ${prompt.title ?? ''}`.trimEnd());
+  }
+  return EXIT_OK;
+}
+
+/**
+ * show: raw markdown of a prompt
+ */
+async function showCommand(fileOps: PromptFileOperations, name: string, values: CliValues, output: CliOutput): Promise<number> {
+  const source = await fileOps.readPromptSource(name);
+  output.stdout(values.json ? JSON.stringify(source, null, 2) : source.content);
+  return EXIT_OK;
+}
+
+/**
+ * render: the prompt messages as an MCP client would receive them
+ */
+async function renderCommand(handlers: PromptHandlers, name: string, values: CliValues, output: CliOutput): Promise<number> {
+  const args: Record<string, string> = {};
+  for (const pair of values.arg || []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`Invalid --arg "${pair}", expected key=value`);
+    }
+    args[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+
+  const result: GetPromptResult = await handlers.handleGetPrompt(name, args);
+
+  if (values.json) {
+    output.stdout(JSON.stringify(result, null, 2));
+    return EXIT_OK;
+  }
+
+  const texts = result.messages.map((message) => ({
+    role: message.role,
+    text: message.content.type === 'text' ? message.content.text.trim() : '',
+  }));
+  output.stdout(
+    texts.length === 1
+      ? (texts[0]?.text ?? '')
+      : texts.map(({ role, text }) => `[${role}]\n${text}`).join('\n\n')
+  );
+  return EXIT_OK;
+}
+
+/**
+ * validate and lint: report diagnostics and fail if there are any
+ * validate only checks frontmatter, lint also checks templates and includes
+ */
+async function checkCommand(
+  includeTemplates: boolean,
+  cache: PromptCache,
+  report: DiagnosticsReport,
+  values: CliValues,
+  output: CliOutput
+): Promise<number> {
+  const prompts = report.prompts
+    .map((prompt) => ({
+      name: prompt.name,
+      diagnostics: prompt.diagnostics.filter((diagnostic) => includeTemplates || diagnostic.source !== 'template'),
+    }))
+    .filter((prompt) => prompt.diagnostics.length > 0);
+  const problemCount = prompts.reduce((total, prompt) => total + prompt.diagnostics.length, 0);
+  const ok = problemCount === 0 && report.schemaError === undefined;
+
+  if (values.json) {
+    output.stdout(JSON.stringify({
+      ok,
+      promptCount: cache.size(),
+      problemCount,
+      ...(report.schemaError !== undefined && { schemaError: report.schemaError }),
+      prompts,
+    }, null, 2));
+    return ok ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  if (report.schemaError !== undefined) {
+    output.stdout(report.schemaError);
+  }
+  // file:line:column: message, the format editors and CI annotations understand
+  for (const prompt of prompts) {
+    // Namespaces are not folders, so the path comes from the file the prompt was loaded from
+    const filePath = cache.getPrompt(prompt.name)?.filePath;
+    const file = filePath ? path.relative(process.cwd(), filePath) : `${prompt.name}.md`;
+    for (const diagnostic of prompt.diagnostics) {
+      const position = diagnostic.column !== undefined ? `${diagnostic.line}:${diagnostic.column}` : `${diagnostic.line}`;
+      output.stdout(`${file}:${position}: ${diagnostic.message} (${diagnostic.source})`);
+    }
+  }
+  output.stdout(
+    problemCount > 0
+      ? `${problemCount} problem(s) in ${prompts.length} of ${cache.size()} prompt(s)`
+      : `No problems found in ${cache.size()} prompt(s)`
+  );
+  return ok ? EXIT_OK : EXIT_FAILURE;
+}
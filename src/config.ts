@@ -0,0 +1,453 @@
+/**
+ * Configuration - prompts-mcp.config.(json|yaml) merged with environment variables and command-line overrides
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import Ajv, { ErrorObject } from 'ajv';
+import yaml from 'js-yaml';
+import chokidar, { FSWatcher } from 'chokidar';
+import { GitRepositoryConfig, PromptDirectory, PromptsMcpConfig, PullStrategy, SyncProviderName, TransportType } from './types.js';
+
+export const CONFIG_FILE_NAMES = ['prompts-mcp.config.json', 'prompts-mcp.config.yaml', 'prompts-mcp.config.yml'];
+
+/**
+ * Settings that are only read at startup; changing them in the config file needs a restart
+ */
+export const RESTART_REQUIRED_SETTINGS = ['promptsDir', 'sources', 'cacheDir', 'transport', 'http.host', 'http.port', 'http.authToken'];
+
+export interface ConfigOverrides {
+  promptsDir?: string;
+  frozen?: boolean;
+}
+
+export interface LoadConfigOptions {
+  /** Explicit config file, e.g. from --config; otherwise PROMPTS_MCP_CONFIG or discovery */
+  configPath?: string;
+  /** Used when neither the config file nor the environment sets a prompts directory */
+  defaultPromptsDir: string;
+  /** Command-line arguments, applied last */
+  overrides?: ConfigOverrides;
+  env?: NodeJS.ProcessEnv;
+  /** Directories searched for a config file, in order; defaults to the working directory and home directory */
+  searchDirs?: string[];
+}
+
+export interface LoadedConfig {
+  config: PromptsMcpConfig;
+  /** Config file the settings were read from, if any */
+  filePath?: string;
+}
+
+const SYNC_PROVIDERS: SyncProviderName[] = ['git', 'github', 'local'];
+const PULL_STRATEGIES: PullStrategy[] = ['fail', 'stash', 'overlay', 'reset'];
+
+const CONFIG_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    promptsDir: { type: 'string', minLength: 1 },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['path'],
+        properties: {
+          path: { type: 'string', minLength: 1 },
+          // Becomes part of prompt names, so it follows the same rules as sanitized names
+          namespace: { type: 'string', pattern: '^[a-z0-9_-]+(/[a-z0-9_-]+)*$' },
+          priority: { type: 'integer' },
+        },
+      },
+    },
+    cacheDir: { type: 'string', minLength: 1 },
+    transport: { enum: ['stdio', 'http'] },
+    http: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        host: { type: 'string', minLength: 1 },
+        port: { type: 'integer', minimum: 0, maximum: 65535 },
+        allowedHosts: { type: 'array', items: { type: 'string', minLength: 1 } },
+        authToken: { type: 'string', minLength: 1 },
+      },
+    },
+    github: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        repoUrl: { type: 'string', minLength: 1 },
+        provider: { enum: SYNC_PROVIDERS },
+        ref: { type: 'string', minLength: 1 },
+        frozen: { type: 'boolean' },
+        syncInterval: { type: 'integer', minimum: 0 },
+        pullStrategy: { enum: PULL_STRATEGIES },
+        repositories: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['url'],
+            properties: {
+              url: { type: 'string', minLength: 1 },
+              provider: { enum: SYNC_PROVIDERS },
+              ref: { type: 'string', minLength: 1 },
+              name: { type: 'string', minLength: 1 },
+              subdirectory: { type: 'string', minLength: 1 },
+              pullStrategy: { enum: PULL_STRATEGIES },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+type ConfigFile = {
+  promptsDir?: string;
+  sources?: PromptDirectory[];
+  cacheDir?: string;
+  transport?: TransportType;
+  http?: { host?: string; port?: number; allowedHosts?: string[]; authToken?: string };
+  github?: {
+    repoUrl?: string;
+    provider?: SyncProviderName;
+    ref?: string;
+    frozen?: boolean;
+    syncInterval?: number;
+    pullStrategy?: PullStrategy;
+    repositories?: GitRepositoryConfig[];
+  };
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateConfigFile = ajv.compile<ConfigFile>(CONFIG_SCHEMA);
+
+/**
+ * Find the first config file in the search directories
+ */
+export async function findConfigFile(searchDirs: string[] = [process.cwd(), os.homedir()]): Promise<string | undefined> {
+  for (const dir of searchDirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const filePath = path.join(dir, fileName);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Take --config <path> out of the command-line arguments, the remaining ones go to the command
+ */
+export function extractConfigArg(argv: string[]): { configPath?: string; args: string[] } {
+  const args: string[] = [];
+  let configPath: string | undefined;
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index] as string;
+    if (arg === '--config' && index + 1 < argv.length) {
+      configPath = argv[++index];
+    } else if (arg.startsWith('--config=')) {
+      configPath = arg.slice('--config='.length);
+    } else {
+      args.push(arg);
+    }
+  }
+  return { ...(configPath && { configPath }), args };
+}
+
+/**
+ * Load the config file (if any) and apply environment variables and overrides
+ * Throws with every problem listed if the configuration is invalid
+ */
+export async function loadConfig(options: LoadConfigOptions): Promise<LoadedConfig> {
+  const env = options.env ?? process.env;
+  const explicitPath = options.configPath ?? env.PROMPTS_MCP_CONFIG;
+  const filePath = explicitPath ? path.resolve(explicitPath) : await findConfigFile(options.searchDirs);
+
+  let file: ConfigFile = {};
+  if (filePath) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      throw new Error(`Configuration file not found: ${filePath}`);
+    }
+    file = parseConfigFile(content, filePath);
+  }
+
+  const config = resolveConfig(file, filePath ? path.dirname(filePath) : process.cwd(), options, env);
+  return { config, ...(filePath && { filePath }) };
+}
+
+/**
+ * Parse and validate config file contents
+ */
+export function parseConfigFile(content: string, filePath: string): ConfigFile {
+  let raw: unknown;
+  try {
+    raw = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid configuration in ${filePath}: ${errorMessage}`);
+  }
+
+  // An empty YAML file is an empty configuration
+  const data = raw ?? {};
+  if (!validateConfigFile(data)) {
+    const problems = formatErrors(validateConfigFile.errors);
+    throw new Error(`Invalid configuration in ${filePath}:\n${problems.map((problem) => `  ${problem}`).join('\n')}`);
+  }
+  return data;
+}
+
+/**
+ * Turn Ajv errors into "http.port must be <= 65535" style messages
+ */
+function formatErrors(errors: ErrorObject[] | null | undefined): string[] {
+  const problems = (errors || []).map((error) => {
+    const field = error.instancePath
+      .split('/')
+      .slice(1)
+      .map((segment, index) => (/^\d+$/.test(segment) ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`))
+      .join('');
+    if (error.keyword === 'additionalProperties' && typeof error.params.additionalProperty === 'string') {
+      return `${field ? `${field}.` : ''}${error.params.additionalProperty} is not a known setting`;
+    }
+    if (error.keyword === 'enum' && Array.isArray(error.params.allowedValues)) {
+      return `${field} must be one of: ${error.params.allowedValues.join(', ')}`;
+    }
+    if (error.keyword === 'pattern' && field.endsWith('.namespace')) {
+      return `${field} must be lowercase letters, digits, "_" and "-", separated by "/"`;
+    }
+    return `${field || 'Configuration'} ${error.message || 'is invalid'}`;
+  });
+  return Array.from(new Set(problems));
+}
+
+/**
+ * Merge defaults < config file < environment < overrides
+ * Relative prompt directories in the config file are relative to the file
+ */
+function resolveConfig(file: ConfigFile, baseDir: string, options: LoadConfigOptions, env: NodeJS.ProcessEnv): PromptsMcpConfig {
+  const problems: string[] = [];
+
+  const transport = env.MCP_TRANSPORT || file.transport || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    problems.push(`MCP_TRANSPORT must be one of: stdio, http (got "${transport}")`);
+  }
+
+  let port = file.http?.port ?? 3000;
+  if (env.MCP_HTTP_PORT !== undefined) {
+    port = Number(env.MCP_HTTP_PORT);
+    if (!/^\d+$/.test(env.MCP_HTTP_PORT) || port > 65535) {
+      problems.push(`MCP_HTTP_PORT must be a port number (got "${env.MCP_HTTP_PORT}")`);
+    }
+  }
+
+  const frozenEnv = env.GITHUB_SYNC_FROZEN;
+  if (frozenEnv !== undefined && frozenEnv !== 'true' && frozenEnv !== 'false') {
+    problems.push(`GITHUB_SYNC_FROZEN must be true or false (got "${frozenEnv}")`);
+  }
+
+  let syncInterval = file.github?.syncInterval;
+  if (env.GITHUB_SYNC_INTERVAL !== undefined) {
+    syncInterval = Number(env.GITHUB_SYNC_INTERVAL);
+    if (!/^\d+$/.test(env.GITHUB_SYNC_INTERVAL)) {
+      problems.push(`GITHUB_SYNC_INTERVAL must be a number of seconds (got "${env.GITHUB_SYNC_INTERVAL}")`);
+    }
+  }
+
+  const pullStrategy = env.GITHUB_PULL_STRATEGY || file.github?.pullStrategy;
+  if (env.GITHUB_PULL_STRATEGY && !PULL_STRATEGIES.includes(env.GITHUB_PULL_STRATEGY as PullStrategy)) {
+    problems.push(`GITHUB_PULL_STRATEGY must be one of: ${PULL_STRATEGIES.join(', ')} (got "${env.GITHUB_PULL_STRATEGY}")`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n${problems.map((problem) => `  ${problem}`).join('\n')}`);
+  }
+
+  const allowedHosts = env.MCP_HTTP_ALLOWED_HOSTS !== undefined
+    ? env.MCP_HTTP_ALLOWED_HOSTS.split(',').map((host) => host.trim()).filter(Boolean)
+    : file.http?.allowedHosts;
+  const authToken = env.MCP_HTTP_AUTH_TOKEN || file.http?.authToken;
+  // Local mirrors, like prompt sources, are relative to the config file
+  const resolveLocalUrl = (url: string, provider?: SyncProviderName): string => (
+    provider === 'local' ? path.resolve(baseDir, expandHome(url)) : url
+  );
+  const provider = file.github?.provider;
+  const repoUrl = env.GITHUB_REPO_URL || (file.github?.repoUrl && resolveLocalUrl(file.github.repoUrl, provider));
+  const repositories = file.github?.repositories?.map((repository) => ({
+    ...repository,
+    url: resolveLocalUrl(repository.url, repository.provider),
+  }));
+
+  const promptsDir = options.overrides?.promptsDir
+    || env.PROMPTS_FOLDER_PATH
+    || (file.promptsDir !== undefined ? path.resolve(baseDir, expandHome(file.promptsDir)) : options.defaultPromptsDir);
+
+  const sources: PromptDirectory[] = (file.sources || []).map((source) => ({
+    ...source,
+    path: path.resolve(baseDir, expandHome(source.path)),
+  }));
+
+  const cacheDir = file.cacheDir !== undefined
+    ? path.resolve(baseDir, expandHome(file.cacheDir))
+    : path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'prompts-mcp-server');
+
+  return {
+    promptsDir: path.resolve(promptsDir),
+    sources: [{ path: path.resolve(promptsDir) }, ...sources],
+    cacheDir,
+    transport: transport as TransportType,
+    http: {
+      host: env.MCP_HTTP_HOST || file.http?.host || '127.0.0.1',
+      port,
+      ...(allowedHosts && { allowedHosts }),
+      ...(authToken && { authToken }),
+    },
+    github: {
+      ...(repoUrl && { repoUrl }),
+      ...(provider && { provider }),
+      ref: env.GITHUB_REPO_REF || file.github?.ref || 'main',
+      frozen: options.overrides?.frozen ?? (frozenEnv !== undefined ? frozenEnv === 'true' : file.github?.frozen ?? false),
+      ...(repositories && { repositories }),
+      ...(syncInterval !== undefined && { syncInterval }),
+      ...(pullStrategy && { pullStrategy: pullStrategy as PullStrategy }),
+    },
+  };
+}
+
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
+
+/**
+ * Get the value of a dotted setting like "http.port"
+ */
+function getSetting(config: PromptsMcpConfig, setting: string): unknown {
+  return setting.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], config);
+}
+
+/**
+ * Holds the current configuration and reloads it when the config file changes
+ * Settings in RESTART_REQUIRED_SETTINGS keep their startup values until the server restarts
+ */
+export class ConfigManager {
+  private config: PromptsMcpConfig;
+  private filePath: string | undefined;
+  private watcher: FSWatcher | null = null;
+  private changeListeners = new Set<(config: PromptsMcpConfig) => void>();
+
+  constructor(loaded: LoadedConfig, private options: LoadConfigOptions) {
+    this.config = loaded.config;
+    this.filePath = loaded.filePath;
+  }
+
+  /**
+   * Get the current configuration
+   */
+  get(): PromptsMcpConfig {
+    return this.config;
+  }
+
+  /**
+   * Config file in use, if any
+   */
+  getFilePath(): string | undefined {
+    return this.filePath;
+  }
+
+  /**
+   * Register a listener called with the new configuration after a reload changed it
+   * Returns a function that removes the listener
+   */
+  onChange(listener: (config: PromptsMcpConfig) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-read the config file and apply the settings that can change while running
+   * An invalid file is reported and the current configuration is kept
+   */
+  async reload(): Promise<void> {
+    if (!this.filePath) return;
+
+    let next: PromptsMcpConfig;
+    try {
+      ({ config: next } = await loadConfig({ ...this.options, configPath: this.filePath }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Keeping the current configuration: ${errorMessage}`);
+      return;
+    }
+
+    const needsRestart = RESTART_REQUIRED_SETTINGS.filter(
+      (setting) => JSON.stringify(getSetting(next, setting)) !== JSON.stringify(getSetting(this.config, setting))
+    );
+    if (needsRestart.length > 0) {
+      console.error(`Restart the server to apply changes to: ${needsRestart.join(', ')}`);
+    }
+
+    const applied: PromptsMcpConfig = {
+      ...next,
+      promptsDir: this.config.promptsDir,
+      sources: this.config.sources,
+      cacheDir: this.config.cacheDir,
+      transport: this.config.transport,
+      http: {
+        host: this.config.http.host,
+        port: this.config.http.port,
+        ...(next.http.allowedHosts && { allowedHosts: next.http.allowedHosts }),
+        ...(this.config.http.authToken && { authToken: this.config.http.authToken }),
+      },
+    };
+    if (JSON.stringify(applied) === JSON.stringify(this.config)) return;
+
+    this.config = applied;
+    console.error(`Reloaded configuration from ${this.filePath}`);
+    for (const listener of this.changeListeners) {
+      try {
+        listener(applied);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error in configuration change listener:', errorMessage);
+      }
+    }
+  }
+
+  /**
+   * Reload whenever the config file is saved
+   */
+  watch(): void {
+    if (!this.filePath || this.watcher) return;
+
+    this.watcher = chokidar.watch(this.filePath, {
+      ignoreInitial: true,
+      // Editors save in several steps, wait until the file is complete
+      awaitWriteFinish: { stabilityThreshold: 100, pollInterval: 50 },
+    });
+    this.watcher.on('change', () => {
+      void this.reload();
+    });
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  async close(): Promise<void> {
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+  }
+}
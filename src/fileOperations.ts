@@ -2,78 +2,207 @@
  * File operations for prompt management (CRUD operations)
  */
 
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
-import { PromptInfo } from './types.js';
+import { DiagnosticsReport, PromptDirectory, PromptInfo } from './types.js';
 import { PromptCache } from './cache.js';
+import { SearchResult } from './searchIndex.js';
+import { PromptFacets } from './promptQuery.js';
+import { findCandidateFiles, findFileSources, findTargetSource, resolveSources, ResolvedSource } from './promptSources.js';
+
+/**
+ * Raw prompt file content with the version used for optimistic concurrency
+ */
+export interface PromptSource {
+  name: string;
+  content: string;
+  version: string;
+}
+
+/**
+ * Result of a write operation: the stored prompt name and its new version
+ */
+export interface PromptWriteResult {
+  name: string;
+  version: string;
+}
+
+/**
+ * Version of a prompt file, derived from its content
+ */
+export function computePromptVersion(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Convert a prompt name to a safe name for a new file, e.g. "Team/Code Review!" -> "team/code_review_"
+ * Each path segment is lowercased and reduced to [a-z0-9_-], so ".." and hidden files cannot be produced
+ */
+export function sanitizePromptName(name: string): string {
+  const segments = name.split('/');
+  if (segments.some((segment) => segment.trim() === '')) {
+    throw new Error(`Invalid prompt name "${name}"`);
+  }
+  return segments.map((segment) => segment.toLowerCase().replace(/[^a-z0-9_-]/g, '_')).join('/');
+}
 
 export class PromptFileOperations {
+  private sources: ResolvedSource[];
+
+  /**
+   * sources must match the cache's: one prompts directory or several merged by namespace and priority
+   */
   constructor(
-    private promptsDir: string,
+    sources: string | PromptDirectory[],
     private cache: PromptCache
-  ) {}
+  ) {
+    this.sources = resolveSources(sources);
+    // Includes are resolved like any other read, with the same lookup and path guards
+    this.cache.setPromptReader((name) => this.readPrompt(name));
+  }
 
   /**
    * List all prompts (uses cache for performance)
    */
   async listPrompts(): Promise<PromptInfo[]> {
-    // Initialize cache and file watcher if not already done
-    if (this.cache.isEmpty()) {
+    await this.ensureCache();
+    return this.cache.getAllPrompts();
+  }
+
+  /**
+   * Full-text search over all prompts (uses the cache's search index)
+   */
+  async searchPrompts(query: string, limit?: number): Promise<SearchResult[]> {
+    await this.ensureCache();
+    return this.cache.search(query, limit);
+  }
+
+  /**
+   * Filter prompts by tags, category, difficulty and free text (uses the cache)
+   */
+  async queryPrompts(query: string): Promise<PromptInfo[]> {
+    await this.ensureCache();
+    return this.cache.query(query);
+  }
+
+  /**
+   * Count prompts per tag, category and difficulty (uses the cache)
+   */
+  async getPromptFacets(): Promise<PromptFacets> {
+    await this.ensureCache();
+    return this.cache.getFacets();
+  }
+
+  /**
+   * Frontmatter diagnostics of all prompts (uses the cache)
+   */
+  async getDiagnostics(): Promise<DiagnosticsReport> {
+    await this.ensureCache();
+    return this.cache.getDiagnostics();
+  }
+
+  /**
+   * Initialize cache and file watcher if not already done
+   * Reads made by the cache while it loads (its includes) must not start a second load
+   */
+  private async ensureCache(): Promise<void> {
+    if (this.cache.isEmpty() && !this.cache.isLoading()) {
       await this.cache.initializeCache();
       this.cache.initializeFileWatcher();
     }
-    
-    return this.cache.getAllPrompts();
   }
 
   /**
-   * Recursively search for a markdown file matching the name
-   * Handles names with slashes that represent subdirectory paths (e.g., "repo-name/prompt" -> "repo-name/prompt.md")
+   * Find the markdown file of a prompt
+   * Uses the path stored in the cache, and only checks the sources on a cache miss
+   * (e.g. a file created moments ago that the watcher has not reported yet)
    */
   private async findPromptFile(name: string): Promise<string | null> {
-    // Recursively search for the file
-    const searchDir = async (dir: string, baseDir: string = this.promptsDir): Promise<string | null> => {
+    await this.ensureCache();
+
+    const cachedPath = this.cache.getPrompt(name)?.filePath;
+    if (cachedPath) {
+      try {
+        await fs.access(cachedPath);
+        return cachedPath;
+      } catch {
+        // Deleted since it was cached, fall back to the scan
+      }
+    }
+
+    return await this.scanForPromptFile(name);
+  }
+
+  /**
+   * Look for the prompt's file in each source whose namespace matches, by precedence
+   * Handles names with slashes that represent subdirectory paths (e.g., "repo-name/prompt" -> "repo-name/prompt.md")
+   */
+  private async scanForPromptFile(name: string): Promise<string | null> {
+    for (const { filePath } of findCandidateFiles(this.sources, name)) {
       try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          
-          // Skip hidden files and directories
-          if (entry.name.startsWith('.')) {
-            continue;
-          }
-          
-          if (entry.isDirectory()) {
-            const found = await searchDir(fullPath, baseDir);
-            if (found) return found;
-          } else if (entry.isFile() && entry.name.endsWith('.md')) {
-            // Check if this file matches the requested name
-            // Compare the relative path directly with the name
-            const relativePath = path.relative(baseDir, fullPath);
-            const pathWithoutExt = relativePath.replace(/\.md$/, '');
-            
-            // Try exact match with the name (supports '/' in names)
-            if (pathWithoutExt === name) {
-              return fullPath;
-            }
-          }
+        if ((await fs.stat(filePath)).isFile()) {
+          return filePath;
         }
       } catch {
-        // Ignore errors (permissions, etc.)
+        // Not in this source
       }
-      
+    }
+    return null;
+  }
+
+  /**
+   * Find an existing prompt file by its exact name, falling back to the sanitized name
+   */
+  private async locatePrompt(name: string): Promise<string | null> {
+    const filePath = await this.findPromptFile(name);
+    if (filePath) return filePath;
+
+    let sanitizedName: string;
+    try {
+      sanitizedName = sanitizePromptName(name);
+    } catch {
       return null;
-    };
-    
-    return await searchDir(this.promptsDir);
+    }
+    return sanitizedName === name ? null : await this.findPromptFile(sanitizedName);
+  }
+
+  /**
+   * Absolute path for a new prompt, in the source with the most specific matching namespace
+   * Guarded against leaving the source directory
+   */
+  private resolvePromptPath(sanitizedName: string): string {
+    const source = findTargetSource(this.sources, sanitizedName);
+    const filePath = source && findCandidateFiles([source], sanitizedName)[0]?.filePath;
+    if (!filePath) {
+      throw new Error(`Invalid prompt name "${sanitizedName}"`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Prompt name of an absolute file path inside a source
+   */
+  private toPromptName(filePath: string): string {
+    const [match] = findFileSources(this.sources, filePath);
+    return match ? match.name : path.basename(filePath, '.md');
+  }
+
+  /**
+   * Reload a written file in the cache
+   * An empty cache is left alone, it loads everything on first use
+   */
+  private async refreshCache(filePath: string): Promise<void> {
+    if (!this.cache.isEmpty()) {
+      await this.cache.refreshFile(filePath);
+    }
   }
 
   /**
    * Read a specific prompt by name (searches recursively)
    */
   async readPrompt(name: string): Promise<string> {
-    const filePath = await this.findPromptFile(name);
+    const filePath = await this.locatePrompt(name);
     
     if (!filePath) {
       throw new Error(`Prompt "${name}" not found`);
@@ -86,6 +215,149 @@ export class PromptFileOperations {
     }
   }
 
+  /**
+   * Read a prompt's raw markdown together with its current version
+   */
+  async readPromptSource(name: string): Promise<PromptSource> {
+    const filePath = await this.locatePrompt(name);
+    if (!filePath) {
+      throw new Error(`Prompt "${name}" not found`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    return { name: this.toPromptName(filePath), content, version: computePromptVersion(content) };
+  }
+
+  /**
+   * Check whether a prompt exists
+   */
+  async promptExists(name: string): Promise<boolean> {
+    return (await this.locatePrompt(name)) !== null;
+  }
+
+  /**
+   * Write a prompt file under its sanitized name, overwriting any existing file
+   * Returns the file name relative to the prompts directory
+   */
+  async savePrompt(name: string, content: string): Promise<string> {
+    const sanitizedName = sanitizePromptName(name);
+    // An existing prompt is overwritten in the source it is served from
+    const filePath = (await this.findPromptFile(sanitizedName)) ?? this.resolvePromptPath(sanitizedName);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+    await this.refreshCache(filePath);
+
+    return `${sanitizedName}.md`;
+  }
+
+  /**
+   * Create a new prompt file, failing if a prompt with that name already exists
+   */
+  async createPrompt(name: string, content: string): Promise<PromptWriteResult> {
+    const sanitizedName = sanitizePromptName(name);
+    const filePath = this.resolvePromptPath(sanitizedName);
+
+    if (await this.locatePrompt(name)) {
+      throw new Error(`Prompt "${sanitizedName}" already exists`);
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      // 'wx' fails if the file appeared in the meantime
+      await fs.writeFile(filePath, content, { encoding: 'utf-8', flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error(`Prompt "${sanitizedName}" already exists`);
+      }
+      throw error;
+    }
+    await this.refreshCache(filePath);
+
+    return { name: sanitizedName, version: computePromptVersion(content) };
+  }
+
+  /**
+   * Replace the content of an existing prompt
+   * Rejects the update if the file no longer matches expectedVersion
+   */
+  async updatePrompt(name: string, content: string, expectedVersion?: string): Promise<PromptWriteResult> {
+    const filePath = await this.locatePrompt(name);
+    if (!filePath) {
+      throw new Error(`Prompt "${name}" not found`);
+    }
+    const promptName = this.toPromptName(filePath);
+
+    await this.checkVersion(promptName, filePath, expectedVersion);
+    await fs.writeFile(filePath, content, 'utf-8');
+    await this.refreshCache(filePath);
+
+    return { name: promptName, version: computePromptVersion(content) };
+  }
+
+  /**
+   * Move a prompt to a new name, which may be in another subfolder
+   * Rejects the rename if the target exists or the file no longer matches expectedVersion
+   */
+  async renamePrompt(name: string, newName: string, expectedVersion?: string): Promise<PromptWriteResult> {
+    const filePath = await this.locatePrompt(name);
+    if (!filePath) {
+      throw new Error(`Prompt "${name}" not found`);
+    }
+    const promptName = this.toPromptName(filePath);
+    const sanitizedName = sanitizePromptName(newName);
+    const newFilePath = this.resolvePromptPath(sanitizedName);
+
+    if (await this.locatePrompt(newName)) {
+      throw new Error(`Prompt "${sanitizedName}" already exists`);
+    }
+
+    const content = await this.checkVersion(promptName, filePath, expectedVersion);
+    await fs.mkdir(path.dirname(newFilePath), { recursive: true });
+    await fs.rename(filePath, newFilePath);
+
+    if (!this.cache.isEmpty()) {
+      await this.cache.removeFile(filePath);
+      await this.cache.refreshFile(newFilePath);
+    }
+
+    return { name: sanitizedName, version: computePromptVersion(content) };
+  }
+
+  /**
+   * Delete a prompt file
+   * Rejects the deletion if expectedVersion is given and the file no longer matches it
+   */
+  async deletePrompt(name: string, expectedVersion?: string): Promise<boolean> {
+    const filePath = await this.locatePrompt(name);
+    if (!filePath) {
+      throw new Error(`Prompt "${name}" not found`);
+    }
+    const promptName = this.toPromptName(filePath);
+
+    await this.checkVersion(promptName, filePath, expectedVersion);
+    await fs.unlink(filePath);
+    await this.cache.removeFile(filePath);
+
+    return true;
+  }
+
+  /**
+   * Read the current file content and compare its version with the expected one
+   */
+  private async checkVersion(name: string, filePath: string, expectedVersion?: string): Promise<string> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (expectedVersion !== undefined) {
+      const version = computePromptVersion(content);
+      if (version !== expectedVersion) {
+        throw new Error(
+          `Prompt "${name}" was modified since it was read (expected version ${expectedVersion}, found ${version})`
+        );
+      }
+    }
+    return content;
+  }
+
   /**
    * Get prompt info from cache (if available)
    */
@@ -1,181 +1,354 @@
 /**
- * GitHub repository synchronization using GitHub CLI
+ * Repository synchronization pinned to commits recorded in prompts.lock
+ * Several repositories are synced in parallel, each into its own folder of the prompts directory,
+ * by the provider configured for it (see syncProviders.ts)
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
+import { GitHubSyncConfig, GitRepositoryConfig, PromptDirectory, RepositorySyncResult, SyncConflict, SyncProviderName } from './types.js';
+import { createSyncProvider, RepoSource, RepositoryCheckout, SyncConflictError, SyncProvider, SyncTarget } from './syncProviders.js';
 
-const execAsync = promisify(exec);
+/**
+ * Lock file in the prompts directory recording the commit each repository was synced to
+ */
+export const LOCK_FILE = 'prompts.lock';
+
+export interface LockedRepository {
+  /** Repository as configured, e.g. https://github.com/user/repo */
+  url: string;
+  /** Branch, tag or commit the commit was resolved from */
+  ref: string;
+  /** Commit SHA, or a hash of the copied files for local mirrors */
+  commit: string;
+}
+
+export interface PromptsLock {
+  version: 1;
+  /** Keyed by the directory the repository is cloned into */
+  repositories: Record<string, LockedRepository>;
+}
+
+// Refs and repository names are passed to git as arguments, so they must not look like options
+const SAFE_REF = /^(?!-)[A-Za-z0-9._/-]+$/;
+const SAFE_NAME = /^(?!-)(?!\.{1,2}$)[A-Za-z0-9._-]+$/;
+const SAFE_SUBDIRECTORY = /^(?!-)[A-Za-z0-9._-]+(?:\/[A-Za-z0-9._-]+)*$/;
+const COMMIT_SHA = /^[0-9a-f]{40}$/;
 
 export class GitHubSync {
-  constructor(private promptsDir: string) {}
+  constructor(private promptsDir: string, private options: GitHubSyncConfig) {}
+
+  /**
+   * Use new settings from the next sync on, e.g. after the config file changed
+   */
+  updateOptions(options: GitHubSyncConfig): void {
+    this.options = options;
+  }
 
   /**
-   * Parse GitHub repository URL and extract repo identifier
-   * Supports formats: https://github.com/user/repo, user/repo, github.com/user/repo
+   * Parse the repository URL and get the directory to clone it into
+   * Supports formats: https://github.com/user/repo, user/repo, github.com/user/repo,
+   * and any other git URL or local path (e.g. a bare repository for testing)
    */
-  private parseRepoUrl(repoUrl: string): { owner: string; repo: string; fullName: string } {
+  private parseRepoUrl(repoUrl: string): RepoSource {
     // Remove trailing slash
     repoUrl = repoUrl.trim().replace(/\/$/, '');
 
+    let source: RepoSource | undefined;
+
     // Extract owner/repo from various URL formats
-    let match = repoUrl.match(/github\.com[/:]([^/]+)\/([^/]+)/);
+    const match = repoUrl.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?$/) ?? repoUrl.match(/^([^/:.~][^/:]*)\/([^/:]+)$/);
     if (match && match[1] && match[2]) {
-      return {
-        owner: match[1],
-        repo: match[2],
-        fullName: `${match[1]}/${match[2]}`,
-      };
+      const fullName = `${match[1]}/${match[2]}`;
+      if (SAFE_NAME.test(match[1])) {
+        source = { repo: match[2], url: `https://github.com/${fullName}`, fullName };
+      }
+    } else if (/^(?:[a-z][a-z0-9+.-]*:\/\/|\/|\.\.?\/|~|[^/\s]+@[^/\s]+:)/i.test(repoUrl)) {
+      source = { repo: path.basename(repoUrl).replace(/\.git$/, ''), url: repoUrl };
     }
 
-    // Check if it's already in owner/repo format
-    match = repoUrl.match(/^([^/]+)\/([^/]+)$/);
-    if (match && match[1] && match[2]) {
-      return {
-        owner: match[1],
-        repo: match[2],
-        fullName: repoUrl,
-      };
+    if (!source || !SAFE_NAME.test(source.repo)) {
+      throw new Error(`Invalid GitHub repository URL format: ${repoUrl}`);
     }
+    return source;
+  }
 
-    throw new Error(`Invalid GitHub repository URL format: ${repoUrl}`);
+  /**
+   * Configured repositories: repoUrl first, then the repositories list
+   */
+  private getRepositories(): GitRepositoryConfig[] {
+    const { repoUrl, provider, repositories = [] } = this.options;
+    return repoUrl ? [{ url: repoUrl, ...(provider && { provider }) }, ...repositories] : repositories;
+  }
+
+  /**
+   * Validate a configured repository and work out where and how it is synced
+   * GitHub repositories use the GitHub CLI unless another provider is configured
+   */
+  private resolveTarget(repository: GitRepositoryConfig): SyncTarget {
+    let source: RepoSource;
+    if (repository.provider === 'local') {
+      const dir = repository.url.trim().replace(/\/+$/, '');
+      source = { repo: path.basename(dir), url: dir };
+    } else {
+      source = this.parseRepoUrl(repository.url);
+    }
+
+    const provider: SyncProviderName = repository.provider ?? (source.fullName ? 'github' : 'git');
+    if (provider === 'github' && !source.fullName) {
+      throw new Error(`${repository.url} is not a GitHub repository; use the git provider`);
+    }
+
+    const repo = repository.name?.trim() ?? source.repo;
+    if (!SAFE_NAME.test(repo)) {
+      throw new Error(`Invalid folder name: ${repo}`);
+    }
+    const ref = (repository.ref ?? this.options.ref).trim();
+    if (!SAFE_REF.test(ref)) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+    const subdirectory = repository.subdirectory?.trim().replace(/^\/+|\/+$/g, '');
+    if (subdirectory !== undefined && (!SAFE_SUBDIRECTORY.test(subdirectory) || subdirectory.split('/').some((segment) => /^\.{1,2}$/.test(segment)))) {
+      throw new Error(`Invalid subdirectory: ${repository.subdirectory}`);
+    }
+
+    const pullStrategy = repository.pullStrategy ?? this.options.pullStrategy ?? 'fail';
+    return { ...source, repo, provider, ref, ...(subdirectory && { subdirectory }), pullStrategy };
   }
 
   /**
    * Get the expected path where repo should be cloned
    */
-  private getRepoPath(repoUrl: string): string {
-    const { repo } = this.parseRepoUrl(repoUrl);
-    return path.join(this.promptsDir, repo);
+  private getRepoPath(source: RepoSource): string {
+    return path.join(this.promptsDir, source.repo);
   }
 
   /**
-   * Check if GitHub CLI is installed
+   * Prompt sources with each repository synced from a subdirectory served as a source of its own,
+   * so its prompts are named <folder>/<prompt> like any other repository, not <folder>/<subdirectory>/<prompt>
+   * sources[0] must be the prompts directory the repositories are synced into
    */
-  private async checkGitHubCLI(): Promise<boolean> {
-    try {
-      await execAsync('gh --version');
-      return true;
-    } catch {
-      return false;
-    }
+  getPromptSources(sources: PromptDirectory[]): PromptDirectory[] {
+    const [primary, ...others] = sources;
+    const folders = this.getRepositories().flatMap((repository) => {
+      try {
+        const { subdirectory, ...source } = this.resolveTarget(repository);
+        return subdirectory ? [{ name: source.repo, path: this.getRepoPath(source), subdirectory }] : [];
+      } catch {
+        // Reported when the repository is synced
+        return [];
+      }
+    });
+    if (!primary || folders.length === 0) return sources;
+
+    return [
+      { ...primary, exclude: [...(primary.exclude ?? []), ...folders.map((folder) => path.relative(primary.path, folder.path))] },
+      ...folders.map((folder) => ({
+        path: path.join(folder.path, folder.subdirectory),
+        namespace: folder.name,
+        ...(primary.priority !== undefined && { priority: primary.priority }),
+      })),
+      ...others,
+    ];
   }
 
   /**
-   * Check if GitHub CLI is authenticated
+   * Read prompts.lock, or an empty lock if there is none
    */
-  private async checkGitHubAuth(): Promise<boolean> {
+  async readLock(): Promise<PromptsLock> {
+    let content: string;
     try {
-      const { stdout } = await execAsync('gh auth status');
-      return stdout.includes('Logged in');
+      content = await fs.readFile(path.join(this.promptsDir, LOCK_FILE), 'utf-8');
     } catch {
-      return false;
+      return { version: 1, repositories: {} };
+    }
+
+    const lock = JSON.parse(content) as Partial<PromptsLock>;
+    if (lock.version !== 1 || typeof lock.repositories !== 'object' || lock.repositories === null) {
+      throw new Error(`Unsupported ${LOCK_FILE} format`);
     }
+    return { version: 1, repositories: lock.repositories };
   }
 
   /**
-   * Check if repo folder already exists
+   * Write prompts.lock with repositories in a stable order, so it diffs cleanly
    */
-  private async repoExists(repoUrl: string): Promise<boolean> {
-    const repoPath = this.getRepoPath(repoUrl);
-    try {
-      const stats = await fs.stat(repoPath);
-      return stats.isDirectory();
-    } catch {
-      return false;
-    }
+  private async writeLock(lock: PromptsLock): Promise<void> {
+    const repositories = Object.fromEntries(
+      Object.entries(lock.repositories).sort(([a], [b]) => a.localeCompare(b))
+    );
+    const content = `${JSON.stringify({ version: lock.version, repositories }, null, 2)}\n`;
+    await fs.writeFile(path.join(this.promptsDir, LOCK_FILE), content, 'utf-8');
   }
 
   /**
-   * Pull latest changes from existing repository
+   * Sync one repository to a commit: the locked one when frozen, otherwise the head of the ref
    */
-  private async pullRepository(repoUrl: string): Promise<void> {
-    const repoPath = this.getRepoPath(repoUrl);
-    const branch = process.env.GITHUB_REPO_REF || 'main';
-    
-    try {
-      // Check if it's a valid git repository
-      await fs.access(path.join(repoPath, '.git'));
-      
-      // Try to checkout the specified branch/ref if needed
-      try {
-        await execAsync(`git checkout ${branch}`, { cwd: repoPath });
-      } catch {
-        // Branch might not exist or already checked out, continue
+  private async syncRepository(source: SyncTarget, provider: SyncProvider, lock: PromptsLock): Promise<RepositoryCheckout> {
+    const { ref } = source;
+    const locked = lock.repositories[source.repo];
+    if (this.options.frozen) {
+      if (!locked) {
+        throw new Error(`${LOCK_FILE} has no entry for ${source.repo}; sync once without --frozen to create it`);
+      }
+      if (locked.url !== source.url || locked.ref !== ref) {
+        throw new Error(`${LOCK_FILE} pins ${source.repo} to ${locked.url}#${locked.ref}, but ${source.url}#${ref} is configured`);
+      }
+      if (!COMMIT_SHA.test(locked.commit)) {
+        throw new Error(`${LOCK_FILE} has an invalid commit for ${source.repo}: ${locked.commit}`);
       }
-      
-      await execAsync('git pull', { cwd: repoPath });
-      console.error(`Successfully pulled latest changes from ${repoUrl}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to pull repository: ${errorMessage}`);
     }
+
+    const checkout = await provider.sync(source, this.getRepoPath(source), this.options.frozen ? locked?.commit : undefined);
+    // Changed files are reported relative to the prompts directory
+    return {
+      ...checkout,
+      ...(checkout.changedFiles && { changedFiles: checkout.changedFiles.map((file) => `${source.repo}/${file}`) }),
+      ...(checkout.conflicts && { conflicts: this.prefixConflicts(source, checkout.conflicts) }),
+    };
+  }
+
+  private prefixConflicts(source: RepoSource, conflicts: SyncConflict[]): SyncConflict[] {
+    return conflicts.map((conflict) => ({ ...conflict, file: `${source.repo}/${conflict.file}` }));
   }
 
   /**
-   * Clone repository using GitHub CLI
+   * Say which local edits lost to upstream or hid it, since the sync itself succeeded
    */
-  private async cloneRepository(repoUrl: string): Promise<void> {
-    const { fullName } = this.parseRepoUrl(repoUrl);
-    const branch = process.env.GITHUB_REPO_REF || 'main';
-    
-    try {
-      // Ensure prompts directory exists
-      await fs.mkdir(this.promptsDir, { recursive: true });
-      
-      // Clone repository without destination parameter
-      // gh repo clone creates a subdirectory with the repo name in the current directory
-      const cloneCommand = `gh repo clone ${fullName} -- --branch ${branch} --depth 1`;
-      await execAsync(cloneCommand, { cwd: this.promptsDir });
-      console.error(`Successfully cloned repository ${repoUrl} into ${this.promptsDir}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to clone repository: ${errorMessage}`);
+  private logConflicts(result: RepositorySyncResult): void {
+    if (!result.conflicts) return;
+
+    const files = (resolution: SyncConflict['resolution']) => result.conflicts
+      ?.filter((conflict) => conflict.resolution === resolution)
+      .map((conflict) => conflict.file) ?? [];
+    const upstream = files('upstream');
+    const local = files('local');
+    if (upstream.length > 0) {
+      const kept = result.stash ? `local edits saved in git stash ${result.stash.slice(0, 12)}` : 'local edits discarded';
+      console.error(`Warning: ${result.name} took the upstream version of ${upstream.join(', ')} (${kept})`);
+    }
+    if (local.length > 0) {
+      console.error(`Warning: ${result.name} kept local edits of ${local.join(', ')} over upstream changes`);
     }
   }
 
   /**
-   * Main sync method - syncs repository from GitHub
+   * Main sync method - syncs every configured repository in parallel
+   * Failures are logged per repository and the server continues,
+   * except in frozen mode where they are thrown once every repository has finished
    */
-  async syncFromGitHub(): Promise<void> {
-    const repoUrl = process.env.GITHUB_REPO_URL;
-    
-    if (!repoUrl) {
-      return; // No GitHub repo configured, skip sync
+  async syncFromGitHub(): Promise<RepositorySyncResult[]> {
+    const repositories = this.getRepositories();
+    if (repositories.length === 0) {
+      return []; // No repository configured, skip sync
     }
 
+    const targets = repositories.map((repository) => {
+      try {
+        return this.resolveTarget(repository);
+      } catch (error) {
+        return error instanceof Error ? error : new Error('Unknown error');
+      }
+    });
+
+    // Two repositories in one folder would overwrite each other
+    const folders = targets.flatMap((target) => (target instanceof Error ? [] : [target.repo]));
+    const duplicates = new Set(folders.filter((folder, index) => folders.indexOf(folder) !== index));
+
+    // Each provider in use is checked once, e.g. that the GitHub CLI is installed and logged in
+    const providers = new Map<SyncProviderName, { provider: SyncProvider; problem: string | undefined }>();
+    for (const target of targets) {
+      if (target instanceof Error || providers.has(target.provider)) continue;
+      const provider = createSyncProvider(target.provider);
+      const problem = await provider.checkAvailable();
+      providers.set(target.provider, { provider, problem });
+      if (problem && !this.options.frozen) {
+        console.error(`Warning: ${problem} Skipping ${target.provider} repositories.`);
+      }
+    }
+
+    let lock: PromptsLock | Error;
     try {
-      // Check if GitHub CLI is installed
-      const cliInstalled = await this.checkGitHubCLI();
-      if (!cliInstalled) {
-        console.error('Warning: GitHub CLI (gh) is not installed. Skipping GitHub sync.');
-        return;
+      lock = await this.readLock();
+    } catch (error) {
+      lock = error instanceof Error ? error : new Error('Unknown error');
+    }
+
+    const results = await Promise.all(
+      repositories.map(async (repository, index): Promise<RepositorySyncResult> => {
+        const target = targets[index] as SyncTarget | Error;
+        const result = target instanceof Error
+          ? { name: repository.name ?? repository.url, url: repository.url, ref: repository.ref ?? this.options.ref }
+          : { name: target.repo, url: target.url, ref: target.ref };
+
+        try {
+          if (target instanceof Error) throw target;
+          if (lock instanceof Error) throw lock;
+          if (duplicates.has(target.repo)) {
+            throw new Error(`Folder ${target.repo} is used by more than one repository; set a different name`);
+          }
+          const { provider, problem } = providers.get(target.provider) as { provider: SyncProvider; problem: string | undefined };
+          if (problem) {
+            // A frozen sync must not silently serve whatever happens to be on disk
+            if (this.options.frozen) throw new Error(problem);
+            return { ...result, status: 'skipped', error: problem };
+          }
+          const synced: RepositorySyncResult = { ...result, status: 'synced', ...(await this.syncRepository(target, provider, lock)) };
+          this.logConflicts(synced);
+          return synced;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          if (!this.options.frozen) {
+            console.error(`Error syncing from GitHub: ${errorMessage} (${result.name})`);
+          }
+          const conflicts = error instanceof SyncConflictError && !(target instanceof Error)
+            ? this.prefixConflicts(target, error.conflicts)
+            : undefined;
+          return { ...result, status: 'failed', error: errorMessage, ...(conflicts && { conflicts }) };
+        }
+      })
+    );
+
+    if (repositories.length > 1) {
+      const count = (status: RepositorySyncResult['status']) => results.filter((result) => result.status === status).length;
+      console.error(`GitHub sync finished: ${count('synced')} synced, ${count('skipped')} skipped, ${count('failed')} failed`);
+    }
+
+    const failed = results.filter((result) => result.status !== 'synced');
+    if (this.options.frozen) {
+      if (failed.length > 0) {
+        throw new Error(`Frozen sync failed: ${failed.map((result) => `${result.name}: ${result.error}`).join('; ')}`);
       }
+      return results;
+    }
 
-      // Check if GitHub CLI is authenticated
-      const cliAuthenticated = await this.checkGitHubAuth();
-      if (!cliAuthenticated) {
-        console.error('Warning: GitHub CLI is not authenticated. Run "gh auth login" to authenticate. Skipping GitHub sync.');
-        return;
+    if (!(lock instanceof Error)) {
+      await this.updateLock(lock, results);
+    }
+    // Don't throw - allow server to continue even if sync fails
+    return results;
+  }
+
+  /**
+   * Record the commits of synced repositories, writing prompts.lock only if something changed
+   */
+  private async updateLock(lock: PromptsLock, results: RepositorySyncResult[]): Promise<void> {
+    let changed = false;
+    for (const { name, url, ref, commit, status } of results) {
+      const locked = lock.repositories[name];
+      if (status === 'synced' && commit && (locked?.commit !== commit || locked.url !== url || locked.ref !== ref)) {
+        lock.repositories[name] = { url, ref, commit };
+        changed = true;
       }
+    }
 
-      // Check if repo already exists
-      const exists = await this.repoExists(repoUrl);
-      
-      if (exists) {
-        // Pull latest changes
-        await this.pullRepository(repoUrl);
-      } else {
-        // Clone repository
-        await this.cloneRepository(repoUrl);
+    if (changed) {
+      try {
+        await this.writeLock(lock);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error writing ${LOCK_FILE}: ${errorMessage}`);
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`Error syncing from GitHub: ${errorMessage}`);
-      // Don't throw - allow server to continue even if sync fails
     }
   }
 }
-
@@ -0,0 +1,311 @@
+/**
+ * HTTP transport - Streamable HTTP on /mcp with the older SSE transport as a fallback
+ * Every client gets its own session and MCP server, all serving the same prompt library
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { PromptServerSession } from './server.js';
+import { HttpServerOptions } from './types.js';
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  session: PromptServerSession;
+}
+
+function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+/**
+ * Hostname of a Host or Origin header value, without IPv6 brackets; null when it cannot be parsed
+ */
+function parseHostname(value: string): string | null {
+  try {
+    return new URL(value).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return null;
+  }
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code = -32000) {
+    super(message);
+  }
+}
+
+export class PromptsHttpServer {
+  private httpServer: http.Server | null = null;
+  private sessions = new Map<string, HttpSession>();
+
+  constructor(
+    private options: HttpServerOptions,
+    private createSession: () => PromptServerSession
+  ) {}
+
+  /**
+   * Start listening and return the bound port
+   * Refuses to listen beyond loopback without a token, since the tools can rewrite and delete prompts
+   */
+  async start(): Promise<number> {
+    if (!isLoopbackHost(this.options.host) && !this.options.authToken) {
+      throw new Error(
+        `The HTTP transport has to be bound to a loopback address or use an auth token, set MCP_HTTP_AUTH_TOKEN to serve on ${this.options.host}`
+      );
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error handling HTTP request:', errorMessage);
+        if (!res.headersSent) {
+          sendError(res, new HttpError(500, 'Internal server error', -32603));
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    const { port } = httpServer.address() as AddressInfo;
+    console.error(`Prompts MCP Server listening on http://${this.options.host}:${port}${MCP_PATH}`);
+    return port;
+  }
+
+  /**
+   * Change the accepted Host header names without restarting
+   */
+  setAllowedHosts(allowedHosts: string[] | undefined): void {
+    this.options = {
+      host: this.options.host,
+      port: this.options.port,
+      ...(allowedHosts && { allowedHosts }),
+      ...(this.options.authToken && { authToken: this.options.authToken }),
+    };
+  }
+
+  /**
+   * Number of connected sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session, then stop accepting connections
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    await Promise.all(sessions.map(({ transport }) =>
+      transport.close().catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Failed to close session:', errorMessage);
+      })
+    ));
+    this.sessions.clear();
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // SSE streams and keep-alive sockets would otherwise hold the server open
+        httpServer.closeAllConnections();
+      });
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      this.checkHost(req);
+      this.checkOrigin(req);
+      this.checkAuthToken(req);
+
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname === MCP_PATH) {
+        await this.handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await this.handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      sendError(res, error);
+    }
+  }
+
+  /**
+   * Reject requests whose Host header does not name this server, see allowedHosts
+   */
+  private checkHost(req: IncomingMessage): void {
+    const allowedHosts = this.options.allowedHosts
+      ?? (isLoopbackHost(this.options.host) ? LOOPBACK_HOSTS : undefined);
+    if (!allowedHosts) return;
+
+    const hostname = parseHostname(`http://${req.headers.host || ''}`);
+    if (hostname === null || !allowedHosts.includes(hostname)) {
+      throw new HttpError(403, `Host "${req.headers.host || ''}" is not allowed`);
+    }
+  }
+
+  /**
+   * Reject browser requests from pages of other sites
+   * Clients that are not browsers send no Origin header; browsers may only use the server's own host names
+   */
+  private checkOrigin(req: IncomingMessage): void {
+    const origin = req.headers.origin;
+    if (origin === undefined) return;
+
+    const allowedHosts = this.options.allowedHosts
+      ?? (isLoopbackHost(this.options.host) ? LOOPBACK_HOSTS : [parseHostname(`http://${req.headers.host || ''}`)]);
+    const hostname = parseHostname(origin);
+    if (hostname === null || !allowedHosts.includes(hostname)) {
+      throw new HttpError(403, `Origin "${origin}" is not allowed`);
+    }
+  }
+
+  /**
+   * Require the bearer token when one is configured
+   */
+  private checkAuthToken(req: IncomingMessage): void {
+    const { authToken } = this.options;
+    if (!authToken) return;
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    // Hashed first, so the comparison takes the same time whatever the lengths
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!match?.[1] || !timingSafeEqual(digest(match[1].trim()), digest(authToken))) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  }
+
+  /**
+   * Streamable HTTP: an initialize POST without a session ID starts a session,
+   * every other request must carry the mcp-session-id header
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const existing = this.sessions.get(sessionId);
+      if (!existing || !(existing.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(404, 'Session not found', -32001);
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad Request: No valid session ID provided');
+    }
+
+    const session = this.createSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, session });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+      session.dispose();
+    };
+
+    try {
+      // The SDK declares onclose without `| undefined`, which exactOptionalPropertyTypes rejects
+      await session.server.connect(transport as Transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize request never starts a session, so nothing else would dispose it
+      if (!transport.sessionId) {
+        session.dispose();
+      }
+    }
+  }
+
+  /**
+   * SSE fallback: GET /sse opens the event stream, which announces where to POST messages
+   */
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const session = this.createSession();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sessions.set(transport.sessionId, { transport, session });
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+      session.dispose();
+    };
+
+    await session.server.connect(transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!existing || !(existing.transport instanceof SSEServerTransport)) {
+      throw new HttpError(404, 'Session not found', -32001);
+    }
+    await existing.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: Invalid JSON', -32700);
+  }
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendError(res: ServerResponse, error: HttpError): void {
+  res.writeHead(error.status, {
+    'Content-Type': 'application/json',
+    ...(error.status === 401 && { 'WWW-Authenticate': 'Bearer' }),
+  }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: error.code, message: error.message },
+    id: null,
+  }));
+}
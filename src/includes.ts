@@ -0,0 +1,64 @@
+/**
+ * Resolution of `{{> name}}` includes between prompts
+ */
+
+import matter from 'gray-matter';
+import { collectPartialNames, parseTemplate, PartialMap, TemplateError, TemplateNode } from './template.js';
+
+/**
+ * Reads the raw markdown (including frontmatter) of a prompt by name
+ */
+export type PromptReader = (name: string) => Promise<string>;
+
+export class IncludeError extends Error {
+  /**
+   * @param includeName the include that could not be resolved
+   */
+  constructor(message: string, public includeName: string) {
+    super(message);
+    this.name = 'IncludeError';
+  }
+}
+
+/**
+ * Load and parse every prompt included by a template, recursively
+ * `stack` holds the names of the prompts currently being expanded (the root prompt first)
+ * and is used to detect include cycles.
+ */
+export async function resolveIncludes(
+  nodes: TemplateNode[],
+  readPrompt: PromptReader,
+  stack: string[],
+  partials: PartialMap = new Map()
+): Promise<PartialMap> {
+  for (const name of collectPartialNames(nodes)) {
+    if (stack.includes(name)) {
+      throw new IncludeError(`Include cycle detected: ${[...stack, name].join(' -> ')}`, name);
+    }
+    if (partials.has(name)) continue;
+
+    let content: string;
+    try {
+      content = await readPrompt(name);
+    } catch {
+      throw new IncludeError(`Included prompt "${name}" not found (included from "${stack[stack.length - 1]}")`, name);
+    }
+
+    const parsed = matter(content);
+    const startLine = content.split('\n').length - parsed.content.split('\n').length + 1;
+    let partialNodes: TemplateNode[];
+    try {
+      partialNodes = parseTemplate(parsed.content, { startLine, onInvalidTag: () => undefined });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new IncludeError(`Included prompt "${name}" has an invalid template: ${error.message}`, name);
+      }
+      throw error;
+    }
+
+    partials.set(name, partialNodes);
+    await resolveIncludes(partialNodes, readPrompt, [...stack, name], partials);
+  }
+
+  return partials;
+}
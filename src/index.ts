@@ -4,80 +4,106 @@
  * Main entry point for the prompts MCP server
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  ListPromptsRequestSchema,
-  GetPromptRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { PromptCache } from './cache.js';
 import { PromptFileOperations } from './fileOperations.js';
-import { PromptHandlers } from './prompts.js';
 import { ServerConfig } from './types.js';
 import { GitHubSync } from './githubSync.js';
+import { runCli, EXIT_FAILURE } from './cli.js';
+import { createPromptServer, PromptServerSession } from './server.js';
+import { PromptsHttpServer } from './httpServer.js';
+import { ConfigManager, extractConfigArg, loadConfig, LoadConfigOptions } from './config.js';
+import { SyncScheduler } from './syncScheduler.js';
+import { SyncStateStore } from './syncState.js';
 
 // Server configuration
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Read configuration from environment or use defaults
-const promptsFolderPath = process.env.PROMPTS_FOLDER_PATH;
-const defaultPromptsDir = path.join(__dirname, '..', 'prompts');
+// Without a command (or with `serve [dir]`) the MCP server is started, other commands run the CLI
+const { configPath, args: cliArgs } = extractConfigArg(process.argv.slice(2));
+const isServeCommand = cliArgs.length === 0 || cliArgs[0] === 'serve';
+const serveArgs = cliArgs[0] === 'serve' ? cliArgs.slice(1) : [];
+const serveDir = serveArgs.find((arg) => !arg.startsWith('-'));
 
-const config: ServerConfig = {
-  name: 'prompts-mcp-server',
-  version: '1.0.0',
-  promptsDir: promptsFolderPath || defaultPromptsDir,
-  ...(promptsFolderPath && { prompts_folder_path: promptsFolderPath }),
-};
-
-// Initialize components
-const cache = new PromptCache(config.promptsDir);
-const fileOps = new PromptFileOperations(config.promptsDir, cache);
-const promptHandlers = new PromptHandlers(fileOps);
-
-// Create MCP server
-const server = new Server(
-  {
-    name: config.name,
-    version: config.version,
+// Settings come from the config file and environment, command-line arguments take precedence
+const configOptions: LoadConfigOptions = {
+  ...(configPath && { configPath }),
+  defaultPromptsDir: path.join(__dirname, '..', 'prompts'),
+  overrides: {
+    ...(serveDir && { promptsDir: path.resolve(serveDir) }),
+    // --frozen checks out the commits recorded in prompts.lock and refuses to start if it cannot
+    ...(serveArgs.includes('--frozen') && { frozen: true }),
   },
-  {
-    capabilities: {
-      prompts: {},
-    },
-  }
-);
-
-// Register prompt handlers
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
-  return await promptHandlers.handleListPrompts();
-});
+};
 
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  return await promptHandlers.handleGetPrompt(name, args);
-});
+// Set once the server is running, closed on shutdown
+let configManager: ConfigManager | null = null;
+let cache: PromptCache | null = null;
+let syncScheduler: SyncScheduler | null = null;
+let stdioSession: PromptServerSession | null = null;
+let httpServer: PromptsHttpServer | null = null;
 
 /**
  * Main server startup function
  */
 async function main(): Promise<void> {
   try {
+    configManager = new ConfigManager(await loadConfig(configOptions), configOptions);
+    const config = configManager.get();
+    const serverConfig: ServerConfig = {
+      name: 'prompts-mcp-server',
+      version: '1.0.0',
+      promptsDir: config.promptsDir,
+    };
+
     // Sync from GitHub if configured (before cache initialization)
-    const githubSync = new GitHubSync(config.promptsDir);
-    await githubSync.syncFromGitHub();
-    
+    // Every run is recorded in the sync state, which clients read through sync_status
+    const githubSync = new GitHubSync(config.promptsDir, config.github);
+    const syncState = new SyncStateStore(config.promptsDir);
+    await syncState.load();
+    const sync = new SyncScheduler(() => githubSync.syncFromGitHub(), {
+      intervalMs: (config.github.syncInterval ?? 0) * 1000,
+      state: syncState,
+    });
+    syncScheduler = sync;
+    await sync.syncNow('startup');
+
+    // Initialize components, shared by every client session
+    const sources = githubSync.getPromptSources(config.sources);
+    const promptCache = new PromptCache(sources, { cacheDir: config.cacheDir });
+    const fileOps = new PromptFileOperations(sources, promptCache);
+    cache = promptCache;
+
     // Initialize cache and file watcher on startup
-    await cache.initializeCache();
-    cache.initializeFileWatcher();
-    
+    await promptCache.initializeCache();
+    promptCache.initializeFileWatcher();
+    configManager.watch();
+
+    // Later syncs run in the background, the file watcher picks up what they check out
+    if (!config.github.frozen) {
+      sync.start();
+    }
+    configManager.onChange((next) => {
+      githubSync.updateOptions(next.github);
+      sync.setInterval((next.github.syncInterval ?? 0) * 1000);
+    });
+
+    if (config.transport === 'http') {
+      // Each HTTP client gets its own session
+      const server = new PromptsHttpServer(config.http, () => createPromptServer(serverConfig, promptCache, fileOps, sync));
+      httpServer = server;
+      configManager.onChange((next) => server.setAllowedHosts(next.http.allowedHosts));
+      await server.start();
+      return;
+    }
+
     // Connect to stdio transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    
+    stdioSession = createPromptServer(serverConfig, promptCache, fileOps, sync);
+    await stdioSession.server.connect(new StdioServerTransport());
+
     console.error('Prompts MCP Server running on stdio');
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -92,7 +118,17 @@ async function main(): Promise<void> {
 async function shutdown(): Promise<void> {
   console.error('Shutting down server...');
   try {
-    await cache.cleanup();
+    // Close client sessions before the watcher so no change notification is sent to a closed transport
+    if (httpServer) {
+      await httpServer.close();
+    }
+    if (stdioSession) {
+      stdioSession.dispose();
+      await stdioSession.server.close();
+    }
+    await syncScheduler?.stop();
+    await configManager?.close();
+    await cache?.cleanup();
     console.error('Server shutdown complete');
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -101,13 +137,24 @@ async function shutdown(): Promise<void> {
   process.exit(0);
 }
 
-// Handle shutdown signals
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+if (isServeCommand) {
+  // Handle shutdown signals
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
-// Start the server
-main().catch((error: unknown) => {
-  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-  console.error('Server error:', errorMessage);
-  process.exit(1);
-});
\ No newline at end of file
+  // Start the server
+  main().catch((error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Server error:', errorMessage);
+    process.exit(1);
+  });
+} else {
+  loadConfig(configOptions)
+    .then(({ config }) => runCli(cliArgs, new GitHubSync(config.promptsDir, config.github).getPromptSources(config.sources)))
+    .catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      process.stderr.write(`Error: ${errorMessage}\n`);
+      return EXIT_FAILURE;
+    })
+    .then((exitCode) => process.exit(exitCode));
+}
@@ -0,0 +1,98 @@
+/**
+ * Splitting prompt bodies into multi-message conversations
+ */
+
+import { PromptDiagnostic } from './types.js';
+
+export type PromptRole = 'system' | 'user' | 'assistant';
+
+export interface PromptSection {
+  role: PromptRole;
+  text: string;
+  /** 1-based line in the body where the section text starts */
+  line: number;
+  /** 1-based line in the body of the role marker, unset for text before the first marker */
+  markerLine?: number;
+}
+
+/**
+ * A role marker occupies a whole line, e.g. `<!-- role: assistant -->`
+ */
+const ROLE_MARKER_PATTERN = /^\s*<!--\s*role:\s*(system|user|assistant)\s*-->\s*$/i;
+
+/**
+ * Fenced code blocks (``` or ~~~) never contain role markers
+ */
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Split a prompt body into role sections using `<!-- role: ... -->` marker lines
+ * Bodies without markers are returned unchanged as a single user section.
+ * Text before the first marker becomes a user section unless it is blank.
+ */
+export function splitPromptMessages(body: string): PromptSection[] {
+  const lines = body.split('\n');
+  const sections: PromptSection[] = [];
+  let current: { role: PromptRole; lines: string[]; line: number; markerLine?: number } = { role: 'user', lines: [], line: 1 };
+  let fence: string | null = null;
+  let hasMarkers = false;
+
+  const flush = () => {
+    const raw = current.lines.join('\n');
+    const text = raw.trim();
+    if (text) {
+      const skippedLines = raw.slice(0, raw.length - raw.trimStart().length).split('\n').length - 1;
+      sections.push({
+        role: current.role,
+        text,
+        line: current.line + skippedLines,
+        ...(current.markerLine !== undefined && { markerLine: current.markerLine }),
+      });
+    }
+  };
+
+  for (const [index, line] of lines.entries()) {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch && fenceMatch[1]) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+    }
+
+    const markerMatch = fence === null ? line.match(ROLE_MARKER_PATTERN) : null;
+    if (markerMatch && markerMatch[1]) {
+      flush();
+      hasMarkers = true;
+      current = { role: markerMatch[1].toLowerCase() as PromptRole, lines: [], line: index + 2, markerLine: index + 1 };
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+
+  if (!hasMarkers) {
+    return [{ role: 'user', text: body, line: 1 }];
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * MCP prompt messages only have user and assistant roles, so system sections are sent as user turns
+ * Each system marker is reported so authors know, with startLine the file line where the body starts
+ */
+export function findSystemRoleDiagnostics(body: string, startLine = 1): PromptDiagnostic[] {
+  return splitPromptMessages(body).flatMap(({ role, markerLine }): PromptDiagnostic[] =>
+    role === 'system' && markerLine !== undefined
+      ? [{
+          source: 'template',
+          message: 'System messages are sent as user messages, MCP prompts have no system role',
+          line: startLine + markerLine - 1,
+          column: 1,
+        }]
+      : []
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Debounced MCP list_changed notifications
+ */
+
+/**
+ * Coalesces bursts of change signals into a single notification
+ * e.g. a `git pull` touching hundreds of prompt files produces one notification
+ */
+export class DebouncedNotifier {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private send: () => Promise<void>,
+    private delayMs: number = 300
+  ) {}
+
+  /**
+   * Schedule a notification, restarting the debounce window
+   */
+  schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.delayMs);
+  }
+
+  /**
+   * Send the notification now
+   * Failures (e.g. no client connected yet) are logged and otherwise ignored
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.send();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to send notification:', errorMessage);
+    }
+  }
+
+  /**
+   * Cancel any pending notification
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
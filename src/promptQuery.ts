@@ -0,0 +1,149 @@
+/**
+ * Filtering prompts by tags, category and difficulty, and counting facet values
+ */
+
+import { PromptInfo, PromptMetadata } from './types.js';
+
+export type FacetField = 'tags' | 'category' | 'difficulty';
+
+/**
+ * Parsed query: each filter lists accepted values (any may match), all filters must match
+ */
+export interface PromptQuery {
+  filters: Array<{ field: FacetField; values: string[] }>;
+  /** Free text that is not a filter, matched with full-text search */
+  text: string;
+}
+
+/**
+ * Catalog entry of a prompt, as returned by queries
+ */
+export interface PromptSummary {
+  name: string;
+  title?: string;
+  description?: string;
+  tags: string[];
+  category?: string;
+  difficulty?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PromptFacets {
+  total: number;
+  tags: FacetCount[];
+  categories: FacetCount[];
+  difficulties: FacetCount[];
+}
+
+const FIELD_ALIASES: Record<string, FacetField> = {
+  tag: 'tags',
+  tags: 'tags',
+  category: 'category',
+  categories: 'category',
+  difficulty: 'difficulty',
+};
+
+// key:value, key:"quoted value", "quoted text" or a bare word
+const TOKEN_PATTERN = /([A-Za-z]+):(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g;
+
+/**
+ * Parse a query like `tags:security,testing difficulty:advanced review`
+ * Comma-separated values of one filter are alternatives; repeating a filter requires both
+ */
+export function parsePromptQuery(query: string): PromptQuery {
+  const filters: PromptQuery['filters'] = [];
+  const text: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [, key, quotedValue, value, quotedText, word] = match;
+    if (key === undefined) {
+      text.push((quotedText ?? word ?? '').trim());
+      continue;
+    }
+
+    const field = FIELD_ALIASES[key.toLowerCase()];
+    if (!field) {
+      throw new Error(`Unknown filter "${key}:", expected one of tags:, category:, difficulty:`);
+    }
+    const values = (quotedValue ?? value ?? '').split(',').map(normalizeFacetValue).filter(Boolean);
+    if (values.length === 0) {
+      throw new Error(`Filter "${key}:" needs a value`);
+    }
+    filters.push({ field, values });
+  }
+
+  return { filters, text: text.filter(Boolean).join(' ') };
+}
+
+/**
+ * Facet values are compared and counted case-insensitively
+ */
+function normalizeFacetValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Get the normalized values of a facet field
+ * Tags may be a list or a comma-separated string
+ */
+export function getFacetValues(metadata: PromptMetadata, field: FacetField): string[] {
+  const raw = metadata[field];
+  const values = Array.isArray(raw)
+    ? raw.map(String)
+    : typeof raw === 'string'
+      ? field === 'tags' ? raw.split(',') : [raw]
+      : [];
+  return Array.from(new Set(values.map(normalizeFacetValue).filter(Boolean)));
+}
+
+/**
+ * Check whether a prompt matches every filter of a query
+ */
+export function matchesPromptQuery(prompt: PromptInfo, query: PromptQuery): boolean {
+  return query.filters.every(({ field, values }) => {
+    const promptValues = getFacetValues(prompt.metadata, field);
+    return values.some((value) => promptValues.includes(value));
+  });
+}
+
+/**
+ * Summarize a prompt for query results
+ */
+export function summarizePrompt(prompt: PromptInfo): PromptSummary {
+  const { title, description, category, difficulty } = prompt.metadata;
+  return {
+    name: prompt.name,
+    ...(typeof title === 'string' && { title }),
+    ...(typeof description === 'string' && { description }),
+    tags: getFacetValues(prompt.metadata, 'tags'),
+    ...(typeof category === 'string' && { category }),
+    ...(typeof difficulty === 'string' && { difficulty }),
+  };
+}
+
+/**
+ * Count the prompts per tag, category and difficulty, most common first
+ */
+export function computeFacets(prompts: PromptInfo[]): PromptFacets {
+  const count = (field: FacetField): FacetCount[] => {
+    const counts = new Map<string, number>();
+    for (const prompt of prompts) {
+      for (const value of getFacetValues(prompt.metadata, field)) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+    return Array.from(counts, ([value, total]) => ({ value, count: total }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  };
+
+  return {
+    total: prompts.length,
+    tags: count('tags'),
+    categories: count('category'),
+    difficulties: count('difficulty'),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Prompt sources - several directories merged into one library, with namespaces and precedence
+ */
+
+import path from 'path';
+import { PromptDirectory } from './types.js';
+
+/**
+ * A prompt directory with its position in the precedence order
+ */
+export interface ResolvedSource {
+  /** Absolute directory path */
+  root: string;
+  /** Name prefix without trailing slash, empty for none */
+  namespace: string;
+  priority: number;
+  /** Position in the configured list; the first source is the primary one */
+  index: number;
+  /** Position in the precedence order, 0 wins */
+  rank: number;
+  /** Absolute paths of the folders below root that are left out */
+  excludes: string[];
+}
+
+/**
+ * Resolve configured sources and order them by precedence:
+ * higher priority first, then the order they were listed in
+ */
+export function resolveSources(sources: string | PromptDirectory[]): ResolvedSource[] {
+  const list: PromptDirectory[] = typeof sources === 'string' ? [{ path: sources }] : sources;
+  if (list.length === 0) {
+    throw new Error('At least one prompt source is required');
+  }
+
+  return list
+    .map((source, index) => ({
+      root: path.resolve(source.path),
+      namespace: (source.namespace ?? '').replace(/^\/+|\/+$/g, ''),
+      priority: source.priority ?? 0,
+      index,
+      excludes: (source.exclude ?? []).map((dir) => path.resolve(source.path, dir)),
+    }))
+    .sort((a, b) => b.priority - a.priority || a.index - b.index)
+    .map((source, rank) => ({ ...source, rank }));
+}
+
+/**
+ * The first configured source, which holds new prompts and the prompt schema
+ */
+export function getPrimarySource(sources: ResolvedSource[]): ResolvedSource {
+  return sources.find((source) => source.index === 0) as ResolvedSource;
+}
+
+/**
+ * Whether a relative path stays inside its directory and avoids hidden files and folders like .git
+ */
+export function isVisibleRelativePath(relativePath: string): boolean {
+  return relativePath !== '' && !path.isAbsolute(relativePath)
+    && relativePath.split(/[\\/]/).every((segment) => segment !== '' && !segment.startsWith('.'));
+}
+
+/**
+ * Whether a path is inside one of the folders left out of a source
+ */
+export function isExcludedPath(source: ResolvedSource, filePath: string): boolean {
+  return source.excludes.some((dir) => filePath === dir || filePath.startsWith(dir + path.sep));
+}
+
+/**
+ * Prompt name of a file in a source, e.g. team/review for <team source>/review.md
+ */
+export function toSourcePromptName(source: ResolvedSource, filePath: string): string | null {
+  const relativePath = path.relative(source.root, filePath);
+  if (!relativePath.endsWith('.md') || !isVisibleRelativePath(relativePath) || isExcludedPath(source, filePath)) {
+    return null;
+  }
+  const name = relativePath.split(path.sep).join('/').replace(/\.md$/, '');
+  return source.namespace ? `${source.namespace}/${name}` : name;
+}
+
+/**
+ * Every source a file belongs to (sources may be nested), with its prompt name there, by precedence
+ */
+export function findFileSources(sources: ResolvedSource[], filePath: string): Array<{ source: ResolvedSource; name: string }> {
+  return sources.flatMap((source) => {
+    const name = toSourcePromptName(source, filePath);
+    return name === null ? [] : [{ source, name }];
+  });
+}
+
+/**
+ * Files that could hold a prompt, by precedence; only sources whose namespace matches the name
+ */
+export function findCandidateFiles(sources: ResolvedSource[], name: string): Array<{ source: ResolvedSource; filePath: string }> {
+  return sources.flatMap((source) => {
+    const relativeName = source.namespace
+      ? name.startsWith(`${source.namespace}/`) ? name.slice(source.namespace.length + 1) : null
+      : name;
+    if (relativeName === null || !isVisibleRelativePath(relativeName)) {
+      return [];
+    }
+    const filePath = path.join(source.root, `${relativeName}.md`);
+    return filePath.startsWith(source.root + path.sep) && !isExcludedPath(source, filePath) ? [{ source, filePath }] : [];
+  });
+}
+
+/**
+ * Source a new prompt is written to: the most specific matching namespace,
+ * falling back to the configured order among equally specific sources
+ */
+export function findTargetSource(sources: ResolvedSource[], name: string): ResolvedSource | undefined {
+  const candidates = findCandidateFiles(sources, name).map(({ source }) => source);
+  return candidates.sort((a, b) => b.namespace.length - a.namespace.length || a.index - b.index)[0];
+}
@@ -9,10 +9,16 @@ import {
   GetPromptResult,
   Prompt,
   PromptMessage,
+  ErrorCode,
+  McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { PromptFileOperations } from './fileOperations.js';
 import { PromptInfo } from './types.js';
-import matter from 'gray-matter';
+import { collectPromptArguments, resolveArguments } from './arguments.js';
+import { splitPromptMessages } from './messages.js';
+import { parseTemplate, PartialMap, renderTemplateNodes, TemplateError } from './template.js';
+import { IncludeError, resolveIncludes } from './includes.js';
+import { parseFrontmatter } from './validation.js';
 
 export class PromptHandlers {
   constructor(private fileOps: PromptFileOperations) {}
@@ -25,6 +31,13 @@ export class PromptHandlers {
       name: promptInfo.name,
       title: promptInfo.metadata.title || promptInfo.name,
       description: promptInfo.metadata.description || promptInfo.preview,
+      arguments: (promptInfo.arguments || []).map((argument) => ({
+        name: argument.name,
+        ...(argument.description !== undefined && { description: argument.description }),
+        required: argument.required === true && argument.default === undefined,
+      })),
+      // Prompts with invalid frontmatter are still listed, flagged with their diagnostics
+      ...(promptInfo.diagnostics && { _meta: { diagnostics: promptInfo.diagnostics } }),
     };
   }
 
@@ -34,9 +47,10 @@ export class PromptHandlers {
   async handleListPrompts(): Promise<ListPromptsResult> {
     const prompts = await this.fileOps.listPrompts();
     
-    const mcpPrompts: Prompt[] = prompts.map((prompt) =>
-      this.promptInfoToMCPPrompt(prompt)
-    );
+    // Partials only exist to be included by other prompts
+    const mcpPrompts: Prompt[] = prompts
+      .filter((prompt) => prompt.metadata.partial !== true)
+      .map((prompt) => this.promptInfoToMCPPrompt(prompt));
 
     return {
       prompts: mcpPrompts,
@@ -47,42 +61,72 @@ export class PromptHandlers {
    * Handle prompts/get request
    */
   async handleGetPrompt(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    let content: string;
     try {
-      const content = await this.fileOps.readPrompt(name);
-      const parsed = matter(content);
-      
-      // Get prompt info for metadata
-      const promptInfo = this.fileOps.getPromptInfo(name);
-      
-      // Replace arguments in the prompt content if provided
-      let promptText = parsed.content;
-      if (args) {
-        for (const [key, value] of Object.entries(args)) {
-          // Replace {{key}} or {key} patterns
-          promptText = promptText.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-          promptText = promptText.replace(new RegExp(`\\{${key}\\}`, 'g'), value);
-        }
-      }
-
-      // Create a user message with the prompt content
-      const message: PromptMessage = {
-        role: 'user',
-        content: {
-          type: 'text',
-          text: promptText,
-        },
-      };
-
-      return {
-        description: promptInfo?.metadata.description,
-        messages: [message],
-      };
+      content = await this.fileOps.readPrompt(name);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Prompt "${name}" not found: ${errorMessage}`);
+      throw new McpError(ErrorCode.InvalidParams, `Prompt "${name}" not found: ${errorMessage}`);
+    }
+
+    const parsed = parseFrontmatter(content);
+    const yamlError = parsed.diagnostics[0];
+    if (yamlError) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Prompt "${name}" has invalid frontmatter at line ${yamlError.line}: ${yamlError.message}`
+      );
+    }
+
+    // Partials are hidden from prompts/list and only make sense inside the prompts that include them
+    if (parsed.data.partial === true) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt "${name}" is a partial and can only be included in other prompts`);
+    }
+
+    // Get prompt info for metadata
+    const promptInfo = this.fileOps.getPromptInfo(name);
+
+    // Apply declared defaults and reject calls missing required arguments
+    const { values, missing } = resolveArguments(collectPromptArguments(parsed.data, parsed.content), args);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Prompt "${name}" is missing required argument(s): ${missing.join(', ')}`
+      );
     }
-  }
-}
 
+    // Line of the file where the body starts, so template errors point at the right line
+    const bodyStartLine = content.split('\n').length - parsed.content.split('\n').length + 1;
 
+    // Split into role sections first so argument values can never introduce new messages,
+    // then render the template of each section with its includes
+    const partials: PartialMap = new Map();
+    const messages: PromptMessage[] = [];
+    try {
+      for (const section of splitPromptMessages(parsed.content)) {
+        // Tags that are not template syntax are rendered as written; lint reports them
+        const nodes = parseTemplate(section.text, { startLine: bodyStartLine + section.line - 1, onInvalidTag: () => undefined });
+        await resolveIncludes(nodes, (includeName) => this.fileOps.readPrompt(includeName), [name], partials);
 
+        messages.push({
+          // MCP prompt messages only support user and assistant roles, so system sections are sent as user turns
+          role: section.role === 'assistant' ? 'assistant' : 'user',
+          content: {
+            type: 'text',
+            text: renderTemplateNodes(nodes, values, partials),
+          },
+        });
+      }
+    } catch (error) {
+      if (error instanceof TemplateError || error instanceof IncludeError) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt "${name}" has an invalid template: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return {
+      description: promptInfo?.metadata.description,
+      messages,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * MCP resources handler - exposes prompt files as MCP resources
+ */
+
+import {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+  Resource,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PromptFileOperations } from './fileOperations.js';
+import { SyncScheduler } from './syncScheduler.js';
+import { PromptInfo } from './types.js';
+
+export const PROMPT_URI_SCHEME = 'prompt://';
+export const FACETS_URI = 'prompt-catalog://facets';
+export const DIAGNOSTICS_URI = 'prompt-catalog://diagnostics';
+export const SYNC_STATUS_URI = 'prompt-catalog://sync-status';
+
+/**
+ * Catalog resources that summarize the whole library, so any prompt change can affect them
+ */
+const CATALOG_URIS = [FACETS_URI, DIAGNOSTICS_URI];
+
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Build the resource URI of a prompt, e.g. "repo-name/prompt" -> "prompt://repo-name/prompt"
+ */
+export function promptNameToUri(name: string): string {
+  return PROMPT_URI_SCHEME + name.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Extract the prompt name from a resource URI, or null if it is not a prompt URI
+ */
+export function uriToPromptName(uri: string): string | null {
+  if (!uri.startsWith(PROMPT_URI_SCHEME)) return null;
+
+  try {
+    const name = uri.slice(PROMPT_URI_SCHEME.length).split('/').map(decodeURIComponent).join('/');
+    return name || null;
+  } catch {
+    return null;
+  }
+}
+
+export class ResourceHandlers {
+  private subscriptions = new Set<string>();
+
+  constructor(private fileOps: PromptFileOperations, private sync?: SyncScheduler) {}
+
+  /**
+   * Convert PromptInfo to MCP Resource format
+   */
+  private promptInfoToResource(promptInfo: PromptInfo): Resource {
+    return {
+      uri: promptNameToUri(promptInfo.name),
+      name: promptInfo.name,
+      title: promptInfo.metadata.title || promptInfo.name,
+      description: promptInfo.metadata.description || promptInfo.preview,
+      mimeType: MARKDOWN_MIME_TYPE,
+    };
+  }
+
+  /**
+   * Handle resources/list request
+   */
+  async handleListResources(): Promise<ListResourcesResult> {
+    const prompts = await this.fileOps.listPrompts();
+
+    return {
+      resources: [
+        {
+          uri: FACETS_URI,
+          name: 'facets',
+          title: 'Prompt catalog facets',
+          description: 'Number of prompts per tag, category and difficulty',
+          mimeType: JSON_MIME_TYPE,
+        },
+        {
+          uri: DIAGNOSTICS_URI,
+          name: 'diagnostics',
+          title: 'Prompt frontmatter diagnostics',
+          description: 'Frontmatter problems found in prompt files, with line numbers',
+          mimeType: JSON_MIME_TYPE,
+        },
+        // Only when the server syncs repositories
+        ...(this.sync ? [{
+          uri: SYNC_STATUS_URI,
+          name: 'sync-status',
+          title: 'Repository sync status',
+          description: 'Last attempt, last success, commit and error of each synced repository, and recent sync runs',
+          mimeType: JSON_MIME_TYPE,
+        }] : []),
+        // Partials only exist to be included by other prompts, as in prompts/list
+        ...prompts
+          .filter((prompt) => prompt.metadata.partial !== true)
+          .map((prompt) => this.promptInfoToResource(prompt)),
+      ],
+    };
+  }
+
+  /**
+   * Handle resources/templates/list request
+   */
+  async handleListResourceTemplates(): Promise<ListResourceTemplatesResult> {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${PROMPT_URI_SCHEME}{+name}`,
+          name: 'prompt',
+          title: 'Prompt file',
+          description: 'Raw markdown of a prompt, including its YAML frontmatter',
+          mimeType: MARKDOWN_MIME_TYPE,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle resources/read request
+   */
+  async handleReadResource(uri: string): Promise<ReadResourceResult> {
+    if (CATALOG_URIS.includes(uri) || (this.sync && uri === SYNC_STATUS_URI)) {
+      const data = uri === FACETS_URI
+        ? await this.fileOps.getPromptFacets()
+        : uri === DIAGNOSTICS_URI
+          ? await this.fileOps.getDiagnostics()
+          : this.sync?.getStatus();
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    }
+
+    const name = uriToPromptName(uri);
+    if (!name) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+
+    let text: string;
+    try {
+      text = await this.fileOps.readPrompt(name);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MARKDOWN_MIME_TYPE,
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle resources/subscribe request
+   */
+  async handleSubscribe(uri: string): Promise<void> {
+    if (!CATALOG_URIS.includes(uri) && !(this.sync && uri === SYNC_STATUS_URI) && !uriToPromptName(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Handle resources/unsubscribe request
+   */
+  async handleUnsubscribe(uri: string): Promise<void> {
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Whether the client subscribed to a resource
+   */
+  isSubscribed(uri: string): boolean {
+    return this.subscriptions.has(uri);
+  }
+
+  /**
+   * Get the subscribed URIs affected by a cache change
+   * name is the changed prompt, or undefined when the whole cache was reloaded
+   */
+  getAffectedSubscriptions(name?: string): string[] {
+    if (name === undefined) {
+      return Array.from(this.subscriptions);
+    }
+    return [promptNameToUri(name), ...CATALOG_URIS].filter((uri) => this.subscriptions.has(uri));
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Incremental full-text search index over prompts
+ */
+
+export interface SearchDocument {
+  name: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  body: string;
+}
+
+export interface SearchResult {
+  name: string;
+  title?: string;
+  score: number;
+  snippet: string;
+}
+
+type SearchField = 'name' | 'title' | 'description' | 'tags' | 'body';
+
+/**
+ * Relative importance of a term occurrence in each field
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  title: 3,
+  tags: 2.5,
+  description: 2,
+  body: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_RADIUS = 60;
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((term) => !STOP_WORDS.has(term));
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  /** Weighted term frequencies */
+  terms: Map<string, number>;
+  length: number;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  /**
+   * Number of indexed documents
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(document: SearchDocument): void {
+    this.remove(document.name);
+
+    const fields: Record<SearchField, string> = {
+      // Path separators, dashes and underscores split names into separate terms
+      name: document.name,
+      title: document.title || '',
+      description: document.description || '',
+      tags: (document.tags || []).join(' '),
+      body: document.body,
+    };
+
+    const terms = new Map<string, number>();
+    let length = 0;
+    for (const [field, text] of Object.entries(fields) as [SearchField, string][]) {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) || 0) + FIELD_WEIGHTS[field]);
+        length++;
+      }
+    }
+
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(document.name, frequency);
+    }
+
+    this.documents.set(document.name, { document, terms, length });
+    this.totalLength += length;
+  }
+
+  /**
+   * Remove a document if it is indexed
+   */
+  remove(name: string): void {
+    const indexed = this.documents.get(name);
+    if (!indexed) return;
+
+    for (const term of indexed.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(name);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(name);
+    this.totalLength -= indexed.length;
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Expand a query term to indexed terms
+   * The last query term also matches as a prefix, so partially typed queries find results
+   */
+  private expandTerm(term: string, isPrefix: boolean): string[] {
+    if (!isPrefix) {
+      return this.postings.has(term) ? [term] : [];
+    }
+    return Array.from(this.postings.keys()).filter((indexed) => indexed.startsWith(term));
+  }
+
+  /**
+   * Ranked search using BM25 over field-weighted term frequencies
+   */
+  search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): SearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+    const matchedTerms = new Set<string>();
+
+    queryTerms.forEach((queryTerm, index) => {
+      for (const term of this.expandTerm(queryTerm, index === queryTerms.length - 1)) {
+        const posting = this.postings.get(term);
+        if (!posting) continue;
+        matchedTerms.add(term);
+
+        const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+        for (const [name, frequency] of posting) {
+          const length = this.documents.get(name)?.length ?? 0;
+          const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+          scores.set(name, (scores.get(name) || 0) + score);
+        }
+      }
+    });
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([name, score]) => {
+        const { document } = this.documents.get(name) as IndexedDocument;
+        return {
+          name,
+          ...(document.title !== undefined && { title: document.title }),
+          score: Math.round(score * 1000) / 1000,
+          snippet: createSnippet(document, matchedTerms),
+        };
+      });
+  }
+}
+
+/**
+ * Build a short excerpt around the first match, with matches wrapped in **bold**
+ */
+function createSnippet(document: SearchDocument, terms: Set<string>): string {
+  const source = [document.body, document.description || '']
+    .map((text) => text.replace(/\s+/g, ' ').trim())
+    .find((text) => findFirstMatch(text, terms) !== -1) ?? document.body.replace(/\s+/g, ' ').trim();
+
+  const matchIndex = Math.max(findFirstMatch(source, terms), 0);
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(source.length, matchIndex + SNIPPET_RADIUS);
+  let snippet = source.slice(start, end);
+
+  snippet = snippet.replace(/[\p{L}\p{N}]+/gu, (word) => (terms.has(word.toLowerCase()) ? `**${word}**` : word));
+  return (start > 0 ? '...' : '') + snippet + (end < source.length ? '...' : '');
+}
+
+function findFirstMatch(text: string, terms: Set<string>): number {
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(match[0].toLowerCase())) {
+      return match.index ?? -1;
+    }
+  }
+  return -1;
+}
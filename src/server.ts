@@ -0,0 +1,145 @@
+/**
+ * MCP server factory - one Server per client session, all sharing the same prompt library
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PromptCache } from './cache.js';
+import { PromptFileOperations } from './fileOperations.js';
+import { PromptHandlers } from './prompts.js';
+import { ResourceHandlers, SYNC_STATUS_URI } from './resources.js';
+import { ToolHandlers } from './tools.js';
+import { SyncScheduler } from './syncScheduler.js';
+import { ServerConfig } from './types.js';
+import { DebouncedNotifier } from './notifications.js';
+
+export interface PromptServerSession {
+  server: Server;
+  /**
+   * Stop sending change notifications to this session
+   * Call when its transport closed; closing the transport itself is up to the caller
+   */
+  dispose(): void;
+}
+
+/**
+ * Create an MCP server for one client session
+ * Resource subscriptions and pending notifications belong to the session,
+ * the cache, file operations and repository sync are shared
+ */
+export function createPromptServer(
+  config: ServerConfig,
+  cache: PromptCache,
+  fileOps: PromptFileOperations,
+  sync?: SyncScheduler
+): PromptServerSession {
+  const promptHandlers = new PromptHandlers(fileOps);
+  const resourceHandlers = new ResourceHandlers(fileOps, sync);
+  const toolHandlers = new ToolHandlers(fileOps, sync);
+
+  const server = new Server(
+    {
+      name: config.name,
+      version: config.version,
+    },
+    {
+      capabilities: {
+        prompts: {
+          listChanged: true,
+        },
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        tools: {},
+      },
+    }
+  );
+
+  // Tell connected clients when prompts are added, changed or removed
+  const promptListNotifier = new DebouncedNotifier(() => server.sendPromptListChanged());
+  const resourceListNotifier = new DebouncedNotifier(() => server.sendResourceListChanged());
+  const sendResourceUpdated = (uri: string): void => {
+    server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to send resource update for ${uri}:`, errorMessage);
+    });
+  };
+  const unsubscribe = cache.onEvent((event) => {
+    if (event.type === 'error') return;
+    promptListNotifier.schedule();
+    resourceListNotifier.schedule();
+    const name = event.type === 'reloaded' ? undefined : event.name;
+    for (const uri of resourceHandlers.getAffectedSubscriptions(name)) {
+      sendResourceUpdated(uri);
+    }
+  });
+  const unsubscribeSync = sync?.onChange(() => {
+    if (resourceHandlers.isSubscribed(SYNC_STATUS_URI)) {
+      sendResourceUpdated(SYNC_STATUS_URI);
+    }
+  });
+
+  // Register prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return await promptHandlers.handleListPrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return await promptHandlers.handleGetPrompt(name, args);
+  });
+
+  // Register resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return await resourceHandlers.handleListResources();
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return await resourceHandlers.handleListResourceTemplates();
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await resourceHandlers.handleReadResource(request.params.uri);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await resourceHandlers.handleSubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    await resourceHandlers.handleUnsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Register tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return await toolHandlers.handleListTools();
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return await toolHandlers.handleCallTool(name, args);
+  });
+
+  return {
+    server,
+    dispose: () => {
+      unsubscribe();
+      unsubscribeSync?.();
+      promptListNotifier.dispose();
+      resourceListNotifier.dispose();
+    },
+  };
+}
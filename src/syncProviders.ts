@@ -0,0 +1,554 @@
+/**
+ * Sync providers - how a configured repository is brought into its folder of the prompts directory
+ * git works with any URL or path, github clones through the GitHub CLI, local mirrors a directory
+ */
+
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PullStrategy, SyncConflict, SyncHistory, SyncProviderName } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface RepoSource {
+  /** Directory name inside the prompts directory */
+  repo: string;
+  url: string;
+  /** owner/repo for GitHub repositories */
+  fullName?: string;
+}
+
+export interface SyncTarget extends RepoSource {
+  provider: SyncProviderName;
+  ref: string;
+  /** Directory of the repository that holds the prompts, the rest is not checked out */
+  subdirectory?: string;
+  /** What to do with local edits; local mirrors always take the source's files */
+  pullStrategy: PullStrategy;
+}
+
+export interface RepositoryCheckout {
+  /** Commit SHA, or a content hash for local mirrors */
+  commit: string;
+  /** Commit the folder was on before, unset when it was created */
+  previousCommit?: string;
+  /** Files changed since previousCommit, relative to the folder */
+  changedFiles?: string[];
+  /** How previousCommit relates to commit, when they differ and the ref was followed */
+  history?: SyncHistory;
+  /** Local edits that collided with the update, relative to the folder */
+  conflicts?: SyncConflict[];
+  /** Stash commit holding the local edits that could not be reapplied */
+  stash?: string;
+}
+
+/**
+ * The update would overwrite local edits or drop local commits, and the pull strategy is fail
+ */
+export class SyncConflictError extends Error {
+  /**
+   * @param conflicts the colliding files, relative to the folder
+   */
+  constructor(message: string, public conflicts: SyncConflict[]) {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
+
+export interface SyncProvider {
+  /**
+   * Why the provider cannot be used on this machine, if it cannot
+   */
+  checkAvailable(): Promise<string | undefined>;
+
+  /**
+   * Bring the folder to the head of the target's ref, or to the locked commit when given
+   */
+  sync(target: SyncTarget, folder: string, lockedCommit?: string): Promise<RepositoryCheckout>;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plain git: any URL git understands, including file:// and local bare repositories
+ * Authentication is left to git's own credential helpers and SSH keys
+ */
+export class GitSyncProvider implements SyncProvider {
+  async checkAvailable(): Promise<string | undefined> {
+    try {
+      await execFileAsync('git', ['--version']);
+      return undefined;
+    } catch {
+      return 'git is not installed.';
+    }
+  }
+
+  async sync(target: SyncTarget, folder: string, lockedCommit?: string): Promise<RepositoryCheckout> {
+    let previousCommit: string | undefined;
+    if (await isDirectory(folder)) {
+      // Check if it's a valid git repository
+      try {
+        await fs.access(path.join(folder, '.git'));
+      } catch {
+        throw new Error(`${folder} exists but is not a git repository`);
+      }
+      previousCommit = await this.git(['rev-parse', '--verify', '--quiet', 'HEAD^{commit}'], folder).catch(() => undefined);
+    } else {
+      await this.cloneRepository(target, folder);
+    }
+
+    let commit: string;
+    if (lockedCommit) {
+      commit = lockedCommit;
+      await this.ensureCommit(folder, commit);
+    } else {
+      commit = await this.resolveRef(folder, target.ref);
+    }
+
+    // A pinned sync goes to the locked commit whatever came before, so only a followed ref is checked for lost commits
+    const history = previousCommit && previousCommit !== commit && !lockedCommit
+      ? await this.checkHistory(folder, target.ref, previousCommit, commit)
+      : undefined;
+    const { conflicts, stash } = previousCommit
+      ? await this.update(target, folder, previousCommit, commit, history)
+      : (await this.checkoutCommit(folder, commit, target.subdirectory), { conflicts: [], stash: undefined });
+
+    if (target.subdirectory && !(await isDirectory(path.join(folder, target.subdirectory)))) {
+      throw new Error(`Subdirectory ${target.subdirectory} not found in ${target.url}#${target.ref}`);
+    }
+
+    console.error(`Synced ${target.url} to ${target.ref} (${commit.slice(0, 12)})`);
+    const report = {
+      ...(history && { history }),
+      ...(conflicts.length > 0 && { conflicts }),
+      ...(stash && { stash }),
+    };
+    if (!previousCommit || previousCommit === commit) {
+      return { commit, ...(previousCommit && { previousCommit, changedFiles: [] }), ...report };
+    }
+    const changedFiles = await this.listChangedFiles(folder, previousCommit, commit, target.subdirectory);
+    return { commit, previousCommit, ...(changedFiles && { changedFiles }), ...report };
+  }
+
+  /**
+   * Run git without a shell
+   */
+  protected async git(args: string[], cwd: string): Promise<string> {
+    return (await this.gitOutput(args, cwd)).trim();
+  }
+
+  /**
+   * Run git without a shell, keeping the output as is (e.g. file contents)
+   */
+  private async gitOutput(args: string[], cwd: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      // Fail instead of waiting for credentials nobody can type
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  /**
+   * Clone without checking out files, the commit is checked out afterwards
+   */
+  protected async clone(target: SyncTarget, folder: string): Promise<void> {
+    await this.git(['clone', '--no-checkout', '--depth', '1', '--', target.url, folder], path.dirname(folder));
+  }
+
+  private async cloneRepository(target: SyncTarget, folder: string): Promise<void> {
+    try {
+      // Ensure prompts directory exists
+      await fs.mkdir(path.dirname(folder), { recursive: true });
+      await this.clone(target, folder);
+      console.error(`Successfully cloned repository ${target.url} into ${path.dirname(folder)}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to clone repository: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Fetch a ref from origin and resolve it to a commit SHA
+   */
+  private async resolveRef(repoPath: string, ref: string): Promise<string> {
+    try {
+      await this.git(['fetch', '--depth', '1', 'origin', ref], repoPath);
+      return await this.git(['rev-parse', '--verify', 'FETCH_HEAD^{commit}'], repoPath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to fetch "${ref}": ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Make sure a commit is available locally, fetching it if needed
+   */
+  private async ensureCommit(repoPath: string, commit: string): Promise<void> {
+    try {
+      await this.git(['cat-file', '-e', `${commit}^{commit}`], repoPath);
+    } catch {
+      try {
+        await this.git(['fetch', '--depth', '1', 'origin', commit], repoPath);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to fetch locked commit ${commit}: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * How the checked-out commit relates to the new one
+   * A shallow clone lacks the history in between, so the commits since the checked-out history began are fetched first
+   */
+  private async checkHistory(repoPath: string, ref: string, previousCommit: string, commit: string): Promise<SyncHistory> {
+    if (await this.isAncestor(repoPath, previousCommit, commit)) {
+      return 'fast-forward';
+    }
+
+    if (await this.git(['rev-parse', '--is-shallow-repository'], repoPath) === 'true') {
+      try {
+        const times = (await this.git(['log', '--format=%ct', previousCommit], repoPath)).split('\n').map(Number);
+        await this.git(['fetch', `--shallow-since=${Math.min(...times) - 1}`, 'origin', ref], repoPath);
+      } catch {
+        return 'unknown';
+      }
+      if (await this.isAncestor(repoPath, previousCommit, commit)) {
+        return 'fast-forward';
+      }
+    }
+
+    return (await this.isAncestor(repoPath, commit, previousCommit)) ? 'ahead' : 'diverged';
+  }
+
+  private async isAncestor(repoPath: string, ancestor: string, commit: string): Promise<boolean> {
+    try {
+      await this.git(['merge-base', '--is-ancestor', ancestor, commit], repoPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Move an existing checkout to a commit, handling local commits and edits by the pull strategy
+   */
+  private async update(
+    target: SyncTarget,
+    repoPath: string,
+    previousCommit: string,
+    commit: string,
+    history: SyncHistory | undefined
+  ): Promise<{ conflicts: SyncConflict[]; stash: string | undefined }> {
+    const { pullStrategy, subdirectory } = target;
+
+    let base = previousCommit;
+    if (history === 'ahead' || history === 'diverged') {
+      const mergeBase = await this.git(['merge-base', previousCommit, commit], repoPath).catch(() => undefined);
+      if (pullStrategy === 'fail') {
+        const count = await this.git(['rev-list', '--count', previousCommit, '--not', commit], repoPath);
+        const files = await this.diffFiles(repoPath, mergeBase ?? commit, previousCommit, subdirectory);
+        throw new SyncConflictError(
+          `${repoPath} has ${count} commit(s) that are not in ${target.ref} (local commits or a force-push upstream); set pullStrategy to stash, overlay or reset`,
+          files.map((file) => ({ file, resolution: 'unresolved' }))
+        );
+      }
+      if (mergeBase && pullStrategy !== 'reset') {
+        // Local commits become local edits, which are handled like any other
+        await this.git(['reset', '--soft', mergeBase], repoPath);
+        base = mergeBase;
+      }
+    }
+
+    const localChanges = await this.listLocalChanges(repoPath);
+    if (localChanges.size === 0) {
+      await this.checkoutCommit(repoPath, commit, subdirectory);
+      return { conflicts: [], stash: undefined };
+    }
+
+    const upstreamChanges = new Set(base === commit ? [] : await this.diffFiles(repoPath, base, commit, subdirectory));
+    const colliding = Array.from(localChanges.keys()).filter((file) => upstreamChanges.has(file)).sort();
+
+    if (pullStrategy === 'fail') {
+      if (colliding.length > 0) {
+        throw new SyncConflictError(
+          `Local changes in ${repoPath} conflict with ${target.ref}: ${colliding.join(', ')}; set pullStrategy to stash, overlay or reset`,
+          colliding.map((file) => ({ file, resolution: 'unresolved' }))
+        );
+      }
+      // Git carries edits of files the update does not touch over to the new commit
+      await this.checkoutCommit(repoPath, commit, subdirectory);
+      return { conflicts: [], stash: undefined };
+    }
+
+    let stash: string | undefined;
+    if (pullStrategy === 'stash') {
+      // Kept until every edit is reapplied, so nothing is lost if reapplying fails halfway
+      await this.git(['stash', 'push', '--include-untracked', '--message', `prompts-mcp-server sync to ${commit.slice(0, 12)}`], repoPath);
+      stash = await this.git(['rev-parse', 'stash@{0}'], repoPath);
+    }
+    await this.checkoutCommit(repoPath, commit, subdirectory, true);
+
+    const conflicts: SyncConflict[] = [];
+    if (pullStrategy === 'reset') {
+      // Files that are new locally survive a reset, unless the update brought the same file
+      for (const [file, change] of localChanges) {
+        if (!change.untracked || upstreamChanges.has(file)) {
+          conflicts.push({ file, resolution: 'upstream' });
+        }
+      }
+      return { conflicts: conflicts.sort((a, b) => a.file.localeCompare(b.file)), stash: undefined };
+    }
+
+    for (const [file, { content }] of localChanges) {
+      if (!upstreamChanges.has(file)) {
+        await this.writeWorkingFile(repoPath, file, content);
+      } else if (pullStrategy === 'overlay') {
+        await this.writeWorkingFile(repoPath, file, content);
+        conflicts.push({ file, resolution: 'local' });
+      } else {
+        const merged = await this.mergeFile(repoPath, file, content, base, commit);
+        if (merged === undefined) {
+          conflicts.push({ file, resolution: 'upstream' });
+        } else {
+          await this.writeWorkingFile(repoPath, file, merged);
+        }
+      }
+    }
+
+    if (stash && conflicts.length === 0) {
+      await this.git(['stash', 'drop', '--quiet', 'stash@{0}'], repoPath);
+      stash = undefined;
+    }
+    return { conflicts: conflicts.sort((a, b) => a.file.localeCompare(b.file)), stash };
+  }
+
+  /**
+   * Files that differ from HEAD in the working tree or index, with their current content (null when deleted)
+   */
+  private async listLocalChanges(repoPath: string): Promise<Map<string, { content: string | null; untracked: boolean }>> {
+    const output = await this.gitOutput(['status', '--porcelain', '-z', '--untracked-files=all', '--no-renames'], repoPath);
+    const changes = new Map<string, { content: string | null; untracked: boolean }>();
+    for (const entry of output.split('\0').filter(Boolean)) {
+      const file = entry.slice(3);
+      let content: string | null;
+      try {
+        content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+      } catch {
+        content = null;
+      }
+      changes.set(file, { content, untracked: entry.startsWith('??') });
+    }
+    return changes;
+  }
+
+  /**
+   * Three-way merge of a local edit with the upstream version; undefined when they conflict
+   */
+  private async mergeFile(repoPath: string, file: string, local: string | null, base: string, commit: string): Promise<string | undefined> {
+    const upstream = await this.gitOutput(['show', `${commit}:${file}`], repoPath).catch(() => null);
+    // Deleted on one side and edited on the other
+    if (local === null || upstream === null) {
+      return undefined;
+    }
+
+    const original = await this.gitOutput(['show', `${base}:${file}`], repoPath).catch(() => '');
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-merge-'));
+    try {
+      const paths = ['local', 'base', 'upstream'].map((name) => path.join(tempDir, name));
+      await Promise.all([local, original, upstream].map((content, index) => fs.writeFile(paths[index] as string, content, 'utf-8')));
+      // Exits with the number of conflicts
+      return await this.gitOutput(['merge-file', '-p', ...paths], repoPath);
+    } catch {
+      return undefined;
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async writeWorkingFile(repoPath: string, file: string, content: string | null): Promise<void> {
+    const filePath = path.join(repoPath, file);
+    if (content === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+  }
+
+  /**
+   * Files that differ between two commits
+   */
+  private async diffFiles(repoPath: string, from: string, to: string, subdirectory?: string): Promise<string[]> {
+    const output = await this.git(['diff', '--name-only', '--no-renames', from, to, '--', ...(subdirectory ? [subdirectory] : [])], repoPath);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Check out a commit, limiting the working tree to the subdirectory if there is one
+   * force discards local edits of tracked files and overwrites untracked files in the way
+   */
+  private async checkoutCommit(repoPath: string, commit: string, subdirectory?: string, force = false): Promise<void> {
+    if (subdirectory) {
+      // Set up before the checkout, so files outside the subdirectory are never written
+      await this.git(['config', 'core.sparseCheckout', 'true'], repoPath);
+      await fs.mkdir(path.join(repoPath, '.git', 'info'), { recursive: true });
+      await fs.writeFile(path.join(repoPath, '.git', 'info', 'sparse-checkout'), `/${subdirectory}/\n`, 'utf-8');
+    }
+
+    // Detached, so the working tree is exactly the commit and never a moving branch
+    await this.git(['checkout', '--quiet', ...(force ? ['--force'] : []), '--detach', commit], repoPath);
+
+    if (subdirectory) {
+      // Checkout leaves files alone when the commit did not change, so apply a changed subdirectory
+      await this.git(['read-tree', '-mu', 'HEAD'], repoPath);
+    } else if (await this.git(['config', '--get', 'core.sparseCheckout'], repoPath).catch(() => '') === 'true') {
+      // The subdirectory setting was removed, check out everything again
+      await this.git(['sparse-checkout', 'disable'], repoPath);
+    }
+  }
+
+  /**
+   * Files that differ between two commits
+   */
+  private async listChangedFiles(repoPath: string, from: string, to: string, subdirectory?: string): Promise<string[] | undefined> {
+    try {
+      return await this.diffFiles(repoPath, from, to, subdirectory);
+    } catch {
+      // The previous commit may be gone from a shallow clone; the sync itself succeeded
+      return undefined;
+    }
+  }
+}
+
+/**
+ * GitHub through the GitHub CLI, which takes care of authentication for private repositories
+ * Updates are fetched with plain git, using the credentials gh set up
+ */
+export class GitHubSyncProvider extends GitSyncProvider {
+  override async checkAvailable(): Promise<string | undefined> {
+    try {
+      await execFileAsync('gh', ['--version']);
+    } catch {
+      return 'GitHub CLI (gh) is not installed.';
+    }
+
+    try {
+      const { stdout, stderr } = await execFileAsync('gh', ['auth', 'status']);
+      if (`${stdout}${stderr}`.includes('Logged in')) {
+        return undefined;
+      }
+    } catch {
+      // Not logged in
+    }
+    return 'GitHub CLI is not authenticated. Run "gh auth login" to authenticate.';
+  }
+
+  protected override async clone(target: SyncTarget, folder: string): Promise<void> {
+    if (!target.fullName) {
+      throw new Error(`${target.url} is not a GitHub repository`);
+    }
+    await execFileAsync('gh', ['repo', 'clone', target.fullName, folder, '--', '--no-checkout', '--depth', '1'], { cwd: path.dirname(folder) });
+  }
+}
+
+/**
+ * A directory on this machine (e.g. a network share or another checkout), copied into the folder
+ * Only changed files are written, so the file watcher sees just the real changes.
+ * The "commit" is a hash of the copied files, which frozen syncs compare against the lock.
+ */
+export class LocalMirrorProvider implements SyncProvider {
+  async checkAvailable(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  async sync(target: SyncTarget, folder: string, lockedCommit?: string): Promise<RepositoryCheckout> {
+    const sourceRoot = path.resolve(target.url);
+    const sourceDir = path.join(sourceRoot, target.subdirectory ?? '');
+    if (!(await isDirectory(sourceDir))) {
+      throw new Error(`Directory not found: ${sourceDir}`);
+    }
+
+    const sourceFiles = await this.listFiles(sourceRoot, target.subdirectory);
+    const commit = this.hashFiles(sourceFiles);
+    if (lockedCommit && commit !== lockedCommit) {
+      throw new Error(`${sourceDir} changed since it was locked at ${lockedCommit.slice(0, 12)}`);
+    }
+
+    const existed = await isDirectory(folder);
+    const targetFiles = existed ? await this.listFiles(folder) : new Map<string, string>();
+    const previousCommit = existed ? this.hashFiles(targetFiles) : undefined;
+
+    const changedFiles: string[] = [];
+    for (const [file, hash] of sourceFiles) {
+      if (targetFiles.get(file) !== hash) {
+        await fs.mkdir(path.dirname(path.join(folder, file)), { recursive: true });
+        await fs.copyFile(path.join(sourceRoot, file), path.join(folder, file));
+        changedFiles.push(file);
+      }
+    }
+    for (const file of targetFiles.keys()) {
+      if (!sourceFiles.has(file)) {
+        await fs.rm(path.join(folder, file), { force: true });
+        changedFiles.push(file);
+      }
+    }
+
+    console.error(`Mirrored ${sourceDir} (${commit.slice(0, 12)})`);
+    return { commit, ...(previousCommit && { previousCommit, changedFiles: changedFiles.sort() }) };
+  }
+
+  /**
+   * Content hash of every visible file below a directory, keyed by path relative to root
+   */
+  private async listFiles(root: string, subdirectory?: string): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+          files.set(relativePath, createHash('sha1').update(await fs.readFile(fullPath)).digest('hex'));
+        }
+      }
+    };
+    await walk(path.join(root, subdirectory ?? ''));
+    return files;
+  }
+
+  private hashFiles(files: Map<string, string>): string {
+    const hash = createHash('sha1');
+    for (const file of Array.from(files.keys()).sort()) {
+      hash.update(`${file}\0${files.get(file)}\n`);
+    }
+    return hash.digest('hex');
+  }
+}
+
+/**
+ * Provider for a configured provider name
+ */
+export function createSyncProvider(name: SyncProviderName): SyncProvider {
+  switch (name) {
+    case 'github':
+      return new GitHubSyncProvider();
+    case 'local':
+      return new LocalMirrorProvider();
+    default:
+      return new GitSyncProvider();
+  }
+}
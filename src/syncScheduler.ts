@@ -0,0 +1,172 @@
+/**
+ * Background repository sync - re-syncs on an interval while the server runs
+ * The file watcher picks up whatever the sync checks out, so requests are never blocked by it
+ */
+
+import { RepositorySyncResult, SyncRun, SyncState, SyncTrigger } from './types.js';
+import { SyncStateStore } from './syncState.js';
+
+/** Each wait is randomly up to this much shorter or longer, so servers started together do not sync together */
+export const SYNC_JITTER_RATIO = 0.1;
+/** Longest wait after repeated failures, unless the interval itself is longer */
+export const MAX_SYNC_BACKOFF_MS = 60 * 60 * 1000;
+
+export type SyncRunner = () => Promise<RepositorySyncResult[]>;
+export type SyncListener = (state: SyncState) => void;
+
+export interface SyncStatus extends SyncState {
+  /** When the next background sync is due, unset when none is scheduled */
+  nextSyncAt?: string;
+}
+
+export interface SyncSchedulerOptions {
+  /** Milliseconds between syncs, 0 disables the background sync */
+  intervalMs: number;
+  /** Returns a number in [0, 1), replaceable in tests */
+  random?: () => number;
+  /** Records every run that synced at least one repository */
+  state?: SyncStateStore;
+}
+
+export class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RepositorySyncResult[]> | null = null;
+  private failures = 0;
+  private started = false;
+  private nextSyncAt: Date | null = null;
+  private listeners = new Set<SyncListener>();
+
+  constructor(private runSync: SyncRunner, private options: SyncSchedulerOptions) {}
+
+  /**
+   * Start syncing in the background; the first sync runs one interval from now
+   */
+  start(): void {
+    this.started = true;
+    this.scheduleNext();
+  }
+
+  /**
+   * Change the interval, rescheduling the next sync if the background sync is running
+   */
+  setInterval(intervalMs: number): void {
+    if (intervalMs === this.options.intervalMs) return;
+    this.options = { ...this.options, intervalMs };
+    if (this.started && !this.running) {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Milliseconds until the next background sync: the interval, doubled for each failed sync in a row, with jitter
+   */
+  getNextDelay(): number {
+    const { intervalMs, random = Math.random } = this.options;
+    const backoff = Math.min(intervalMs * 2 ** Math.min(this.failures, 16), Math.max(intervalMs, MAX_SYNC_BACKOFF_MS));
+    return Math.round(backoff * (1 + (random() * 2 - 1) * SYNC_JITTER_RATIO));
+  }
+
+  /**
+   * Register a listener called after each recorded sync
+   * Returns a function that removes the listener
+   */
+  onChange(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Recorded sync state and the time of the next background sync
+   */
+  getStatus(): SyncStatus {
+    const state = this.options.state?.get() ?? { version: 1, repositories: {}, history: [] };
+    return { ...state, ...(this.nextSyncAt && { nextSyncAt: this.nextSyncAt.toISOString() }) };
+  }
+
+  /**
+   * Sync right away; joins a sync that is already running instead of starting a second one
+   */
+  async syncNow(trigger: SyncTrigger = 'manual'): Promise<RepositorySyncResult[]> {
+    if (this.running) {
+      return await this.running;
+    }
+
+    this.clearTimer();
+    this.running = this.run(trigger);
+    return await this.running;
+  }
+
+  /**
+   * Stop the background sync and wait for a running sync to finish
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    this.clearTimer();
+    await this.running?.catch(() => undefined);
+  }
+
+  private async run(trigger: SyncTrigger): Promise<RepositorySyncResult[]> {
+    const startedAt = new Date().toISOString();
+    try {
+      const results = await this.runSync();
+      this.failures = results.some((result) => result.status === 'failed') ? this.failures + 1 : 0;
+      // Nothing to record when no repository is configured
+      if (results.length > 0) {
+        await this.record({ trigger, startedAt, finishedAt: new Date().toISOString(), repositories: results });
+      }
+      return results;
+    } catch (error) {
+      this.failures++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.record({ trigger, startedAt, finishedAt: new Date().toISOString(), repositories: [], error: errorMessage });
+      throw error;
+    } finally {
+      this.running = null;
+      if (this.started) {
+        this.scheduleNext();
+      }
+    }
+  }
+
+  private async record(run: SyncRun): Promise<void> {
+    const { state } = this.options;
+    if (!state) return;
+
+    await state.record(run);
+    for (const listener of this.listeners) {
+      try {
+        listener(state.get());
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Sync listener failed:', errorMessage);
+      }
+    }
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+    if (this.options.intervalMs <= 0) return;
+
+    const delay = this.getNextDelay();
+    this.nextSyncAt = new Date(Date.now() + delay);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.syncNow('background').catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Background sync failed:', errorMessage);
+      });
+    }, delay);
+    // A pending sync must not keep the process alive
+    this.timer.unref();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextSyncAt = null;
+  }
+}
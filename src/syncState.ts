@@ -0,0 +1,87 @@
+/**
+ * Sync state - the outcome of recent syncs, kept in the prompts directory so it survives restarts
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { RepositorySyncState, SyncRun, SyncState } from './types.js';
+
+/**
+ * Hidden, so neither the cache nor the file watcher treat it as a prompt
+ */
+export const SYNC_STATE_FILE = '.sync-state.json';
+
+/** Runs kept in the history */
+export const MAX_SYNC_HISTORY = 20;
+
+export class SyncStateStore {
+  private state: SyncState = { version: 1, repositories: {}, history: [] };
+
+  constructor(private promptsDir: string) {}
+
+  /**
+   * Load the state saved by a previous run; a missing or unreadable file starts a fresh state
+   */
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.promptsDir, SYNC_STATE_FILE), 'utf-8');
+    } catch {
+      return;
+    }
+
+    try {
+      const saved = JSON.parse(content) as Partial<SyncState>;
+      if (saved.version === 1 && typeof saved.repositories === 'object' && saved.repositories !== null && Array.isArray(saved.history)) {
+        this.state = { version: 1, repositories: saved.repositories, history: saved.history };
+        return;
+      }
+      console.error(`Ignoring ${SYNC_STATE_FILE}: unsupported format`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Ignoring ${SYNC_STATE_FILE}: ${errorMessage}`);
+    }
+  }
+
+  get(): SyncState {
+    return this.state;
+  }
+
+  /**
+   * Add a finished run and save the state
+   */
+  async record(run: SyncRun): Promise<void> {
+    const repositories = { ...this.state.repositories };
+    for (const result of run.repositories) {
+      const previous: Partial<RepositorySyncState> = repositories[result.name] ?? {};
+      const succeeded = result.status === 'synced';
+      const lastSuccess = succeeded ? run.finishedAt : previous.lastSuccess;
+      const commit = succeeded ? result.commit : previous.commit;
+      repositories[result.name] = {
+        name: result.name,
+        url: result.url,
+        ref: result.ref,
+        status: result.status,
+        lastAttempt: run.finishedAt,
+        ...(lastSuccess && { lastSuccess }),
+        ...(commit && { commit }),
+        ...(result.error && { error: result.error }),
+        ...(result.conflicts && { conflicts: result.conflicts }),
+      };
+    }
+
+    this.state = {
+      version: 1,
+      repositories,
+      history: [...this.state.history, run].slice(-MAX_SYNC_HISTORY),
+    };
+
+    try {
+      await fs.mkdir(this.promptsDir, { recursive: true });
+      await fs.writeFile(path.join(this.promptsDir, SYNC_STATE_FILE), `${JSON.stringify(this.state, null, 2)}\n`, 'utf-8');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error writing ${SYNC_STATE_FILE}: ${errorMessage}`);
+    }
+  }
+}
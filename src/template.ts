@@ -0,0 +1,618 @@
+/**
+ * Sandboxed template engine for prompt bodies
+ *
+ * Supported syntax:
+ * - `{{name}}` and legacy `{name}` output
+ * - `{{name|default:"x"|upper}}` filters
+ * - `{{#if name}}…{{else}}…{{/if}}` and `{{#unless name}}…{{/unless}}`
+ * - `{{#each list}}{{this}}{{/each}}` over comma-separated values, with `@index`, `@first`, `@last`
+ * - `{{> other/prompt key="value" key2=argument}}` includes, resolved by the caller into a partials map
+ * - `{{! comment }}`
+ * - `\{{…}}` and `\{name}` escapes that are emitted literally
+ *
+ * Tags that are not part of this syntax, like `{{ user.name }}` in a prompt about Handlebars or Jinja,
+ * are errors unless the caller passes `onInvalidTag`; they are then kept as literal text.
+ *
+ * Templates can only read argument values by name; there is no expression evaluation.
+ */
+
+export class TemplateError extends Error {
+  /** The message without the position prefix */
+  readonly reason: string;
+
+  constructor(message: string, public line: number, public column: number) {
+    super(`Template error at line ${line}, column ${column}: ${message}`);
+    this.name = 'TemplateError';
+    this.reason = message;
+  }
+}
+
+export type FilterArgument = string | number;
+
+export interface TemplateFilter {
+  name: string;
+  args: FilterArgument[];
+}
+
+export interface TemplateExpression {
+  name: string;
+  filters: TemplateFilter[];
+}
+
+export interface PartialArgument {
+  name: string;
+  /** Literal string, or the name of an argument when isVariable is set */
+  value: string;
+  isVariable: boolean;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'partial'; name: string; args: PartialArgument[]; indent: string; standalone: boolean; line: number; column: number }
+  | { type: 'output'; expression: TemplateExpression; source: string; line: number }
+  | { type: 'if'; negate: boolean; expression: TemplateExpression; consequent: TemplateNode[]; alternate: TemplateNode[]; line: number }
+  | { type: 'each'; expression: TemplateExpression; body: TemplateNode[]; line: number };
+
+export interface ParseOptions {
+  /** Line number of the first line of the source, used in error messages */
+  startLine?: number;
+  /**
+   * Called for each output tag that is not valid template syntax, which is then emitted literally
+   * instead of failing the parse; unclosed blocks and invalid includes still throw
+   */
+  onInvalidTag?: (error: TemplateError) => void;
+}
+
+/**
+ * Parsed templates of included prompts, keyed by prompt name
+ */
+export type PartialMap = Map<string, TemplateNode[]>;
+
+type FilterFunction = (value: string | undefined, args: FilterArgument[]) => string | undefined;
+
+const FILTERS: Record<string, FilterFunction> = {
+  default: (value, args) => (value === undefined || value === '' ? String(args[0] ?? '') : value),
+  upper: (value) => value?.toUpperCase(),
+  lower: (value) => value?.toLowerCase(),
+  trim: (value) => value?.trim(),
+  capitalize: (value) => (value ? value.charAt(0).toUpperCase() + value.slice(1) : value),
+  // Indent every line except the first, so the filter can be used after existing indentation
+  indent: (value, args) => {
+    const width = typeof args[0] === 'number' ? args[0] : Number(args[0] ?? 2);
+    const padding = ' '.repeat(Number.isFinite(width) && width > 0 ? width : 0);
+    return value?.split('\n').map((line, index) => (index === 0 || line === '' ? line : padding + line)).join('\n');
+  },
+  truncate: (value, args) => {
+    const length = Number(args[0] ?? 100);
+    return value !== undefined && value.length > length ? value.slice(0, length) + '...' : value;
+  },
+  json: (value) => (value === undefined ? value : JSON.stringify(value)),
+};
+
+/**
+ * Values treated as false by {{#if}} and {{#unless}}
+ */
+const FALSY_VALUES = new Set(['', 'false', '0', 'no']);
+
+const IDENTIFIER_PATTERN = /^(?:[A-Za-z_][\w-]*|@index|@first|@last)$/;
+const LEGACY_PLACEHOLDER_PATTERN = /\{([A-Za-z_][\w-]*)\}/y;
+const PARTIAL_ARGUMENT_PATTERN = /^([A-Za-z_][\w-]*)=(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_][\w-]*|@index|@first|@last))(?:\s+|$)/;
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'output'; body: string; source: string; line: number; column: number }
+  | { kind: 'open'; block: 'if' | 'unless' | 'each'; body: string; line: number; column: number }
+  | { kind: 'else'; line: number; column: number }
+  | { kind: 'partial'; body: string; indent: string; standalone: boolean; line: number; column: number }
+  | { kind: 'close'; block: string; line: number; column: number }
+  | { kind: 'literal'; value: string; error: TemplateError };
+
+const BLOCKS = new Set(['if', 'unless', 'each']);
+
+/**
+ * Tracks line/column positions for offsets within the source
+ */
+class PositionTracker {
+  private lineStarts: number[] = [0];
+
+  constructor(source: string, private startLine: number) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  at(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((this.lineStarts[mid] ?? 0) <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: this.startLine + low, column: offset - (this.lineStarts[low] ?? 0) + 1 };
+  }
+}
+
+/**
+ * Split source into text and tag tokens
+ */
+function tokenize(source: string, positions: PositionTracker, lenient: boolean): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  let pos = 0;
+
+  while (pos < source.length) {
+    const index = source.indexOf('{', pos);
+    if (index === -1) break;
+
+    // Escaped \{{…}} or \{name} is emitted literally without the backslash
+    if (index > 0 && source[index - 1] === '\\') {
+      const closing = source.startsWith('{{', index) ? source.indexOf('}}', index + 2) : -1;
+      LEGACY_PLACEHOLDER_PATTERN.lastIndex = index;
+      const legacy = LEGACY_PLACEHOLDER_PATTERN.exec(source);
+      const end = closing !== -1 ? closing + 2 : legacy ? index + legacy[0].length : -1;
+      if (end !== -1) {
+        text += source.slice(pos, index - 1) + source.slice(index, end);
+        pos = end;
+        continue;
+      }
+    }
+
+    if (source.startsWith('{{', index)) {
+      const { line, column } = positions.at(index);
+      const closing = source.indexOf('}}', index + 2);
+      if (closing === -1) {
+        const error = new TemplateError('Unclosed tag, expected "}}"', line, column);
+        if (!lenient) throw error;
+        text += source.slice(pos, index);
+        pushText(tokens, text);
+        text = '';
+        tokens.push({ kind: 'literal', value: '{{', error });
+        pos = index + 2;
+        continue;
+      }
+
+      const body = source.slice(index + 2, closing).trim();
+      const segmentStart = pos;
+      const tagEnd = closing + 2;
+      text += source.slice(pos, index);
+      pos = tagEnd;
+
+      const token = classifyTag(body, source.slice(index, tagEnd), line, column, lenient);
+      if (token.kind !== 'output' && token.kind !== 'literal') {
+        // Block tags and comments standing alone on a line do not leave blank lines behind
+        const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+        const leading = source.slice(lineStart, index);
+        const trailing = /^[ \t]*(?:\r?\n|$)/.exec(source.slice(tagEnd));
+        if (trailing && lineStart >= segmentStart && /^[ \t]*$/.test(leading)) {
+          text = text.slice(0, text.length - leading.length);
+          pos = tagEnd + trailing[0].length;
+          // A standalone include is indented like its tag and keeps its own line
+          if (token.kind === 'partial') {
+            token.indent = leading;
+            token.standalone = true;
+          }
+        }
+      }
+
+      pushText(tokens, text);
+      text = '';
+      if (token.kind !== 'text') tokens.push(token);
+      continue;
+    }
+
+    // Legacy single-brace placeholder
+    LEGACY_PLACEHOLDER_PATTERN.lastIndex = index;
+    const legacy = LEGACY_PLACEHOLDER_PATTERN.exec(source);
+    if (legacy && legacy[1]) {
+      const { line, column } = positions.at(index);
+      text += source.slice(pos, index);
+      pushText(tokens, text);
+      text = '';
+      tokens.push({ kind: 'output', body: legacy[1], source: legacy[0], line, column });
+      pos = index + legacy[0].length;
+      continue;
+    }
+
+    text += source.slice(pos, index + 1);
+    pos = index + 1;
+  }
+
+  text += source.slice(pos);
+  pushText(tokens, text);
+  return tokens;
+}
+
+function pushText(tokens: Token[], value: string): void {
+  if (value) tokens.push({ kind: 'text', value });
+}
+
+/**
+ * Classify the body of a {{…}} tag
+ * Comments are returned as empty text tokens; when lenient, tags of other template languages are literal tokens
+ */
+function classifyTag(body: string, source: string, line: number, column: number, lenient: boolean): Token {
+  const invalid = (message: string): Token => {
+    const error = new TemplateError(message, line, column);
+    if (!lenient) throw error;
+    return { kind: 'literal', value: source, error };
+  };
+
+  if (body.startsWith('!')) {
+    return { kind: 'text', value: '' };
+  }
+
+  if (body.startsWith('#')) {
+    const match = body.match(/^#(\w+)\s*([\s\S]*)$/);
+    const block = match?.[1];
+    if (block !== 'if' && block !== 'unless' && block !== 'each') {
+      return invalid(`Unknown block "{{${body}}}"`);
+    }
+    if (!match?.[2]) {
+      throw new TemplateError(`{{#${block}}} requires an argument name`, line, column);
+    }
+    return { kind: 'open', block, body: match[2], line, column };
+  }
+
+  if (body.startsWith('>')) {
+    return { kind: 'partial', body: body.slice(1).trim(), indent: '', standalone: false, line, column };
+  }
+
+  if (body.startsWith('/')) {
+    const block = body.slice(1).trim();
+    if (lenient && !BLOCKS.has(block)) {
+      return invalid(`{{/${block}}} without a matching opening block`);
+    }
+    return { kind: 'close', block, line, column };
+  }
+
+  if (body === 'else') {
+    return { kind: 'else', line, column };
+  }
+
+  if (!body) {
+    return invalid('Empty tag "{{}}"');
+  }
+
+  return { kind: 'output', body, source, line, column };
+}
+
+/**
+ * Split an expression on "|" separators that are not inside quotes
+ */
+function splitPipes(body: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] as string;
+    if (quote) {
+      current += char;
+      if (char === '\\' && i + 1 < body.length) {
+        current += body[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseFilterArgument(raw: string, line: number, column: number): FilterArgument {
+  const value = raw.trim();
+  const quoted = value.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) {
+    return (quoted[2] ?? '').replace(/\\(.)/g, '$1');
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (/^[\w-]+$/.test(value)) {
+    return value;
+  }
+  throw new TemplateError(`Invalid filter argument "${value}"`, line, column);
+}
+
+/**
+ * Parse `name key="value" key2=argument` from an include tag
+ */
+function parsePartial(token: Extract<Token, { kind: 'partial' }>): Extract<TemplateNode, { type: 'partial' }> {
+  const { line, column } = token;
+  const nameMatch = token.body.match(/^(?:"([^"]+)"|'([^']+)'|([^\s"'=]+))(?:\s+|$)/);
+  const name = nameMatch ? (nameMatch[1] ?? nameMatch[2] ?? nameMatch[3] ?? '') : '';
+
+  // Include names are prompt names relative to the prompts directory
+  const segments = name.split('/');
+  if (!name || name.startsWith('/') || segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new TemplateError(`Invalid include "{{> ${token.body}}}"`, line, column);
+  }
+
+  const args: PartialArgument[] = [];
+  let rest = token.body.slice(nameMatch?.[0].length ?? 0);
+  while (rest) {
+    const match = rest.match(PARTIAL_ARGUMENT_PATTERN);
+    if (!match || !match[1]) {
+      throw new TemplateError(`Invalid include argument "${rest.trim()}"`, line, column);
+    }
+    const literal = match[2] ?? match[3];
+    args.push({
+      name: match[1],
+      value: literal !== undefined ? literal.replace(/\\(.)/g, '$1') : match[4] ?? '',
+      isVariable: literal === undefined,
+    });
+    rest = rest.slice(match[0].length);
+  }
+
+  return { type: 'partial', name, args, indent: token.indent, standalone: token.standalone, line, column };
+}
+
+/**
+ * Parse `name|filter|filter:arg` into an expression
+ */
+function parseExpression(body: string, line: number, column: number): TemplateExpression {
+  const [head, ...filterSources] = splitPipes(body);
+  const name = head ?? '';
+
+  if (name !== 'this' && !IDENTIFIER_PATTERN.test(name)) {
+    throw new TemplateError(`Invalid expression "${body}"`, line, column);
+  }
+
+  const filters = filterSources.map((filterSource) => {
+    const separator = filterSource.indexOf(':');
+    const filterName = (separator === -1 ? filterSource : filterSource.slice(0, separator)).trim();
+    if (!Object.hasOwn(FILTERS, filterName)) {
+      throw new TemplateError(`Unknown filter "${filterName}"`, line, column);
+    }
+    const args = separator === -1 ? [] : [parseFilterArgument(filterSource.slice(separator + 1), line, column)];
+    return { name: filterName, args };
+  });
+
+  return { name, filters };
+}
+
+/**
+ * Parse a template into an AST, throwing TemplateError on syntax errors
+ */
+export function parseTemplate(source: string, options: ParseOptions = {}): TemplateNode[] {
+  const positions = new PositionTracker(source, options.startLine ?? 1);
+  const { onInvalidTag } = options;
+  const tokens = tokenize(source, positions, onInvalidTag !== undefined);
+  let index = 0;
+
+  const parseNodes = (open?: Extract<Token, { kind: 'open' }>): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+
+    while (index < tokens.length) {
+      const token = tokens[index++] as Token;
+
+      switch (token.kind) {
+        case 'text':
+          nodes.push({ type: 'text', value: token.value });
+          break;
+        case 'partial':
+          nodes.push(parsePartial(token));
+          break;
+        case 'output': {
+          let expression: TemplateExpression;
+          try {
+            expression = parseExpression(token.body, token.line, token.column);
+          } catch (error) {
+            if (!(error instanceof TemplateError) || !onInvalidTag) throw error;
+            onInvalidTag(error);
+            nodes.push({ type: 'text', value: token.source });
+            break;
+          }
+          nodes.push({ type: 'output', expression, source: token.source, line: token.line });
+          break;
+        }
+        case 'literal':
+          onInvalidTag?.(token.error);
+          nodes.push({ type: 'text', value: token.value });
+          break;
+        case 'open': {
+          const expression = parseExpression(token.body, token.line, token.column);
+          const consequent = parseNodes(token);
+          let alternate: TemplateNode[] = [];
+          const terminator = tokens[index - 1];
+          if (terminator?.kind === 'else') {
+            if (token.block === 'each') {
+              throw new TemplateError('{{else}} is not supported inside {{#each}}', terminator.line, terminator.column);
+            }
+            alternate = parseNodes(token);
+          }
+          if (token.block === 'each') {
+            nodes.push({ type: 'each', expression, body: consequent, line: token.line });
+          } else {
+            nodes.push({ type: 'if', negate: token.block === 'unless', expression, consequent, alternate, line: token.line });
+          }
+          break;
+        }
+        case 'else':
+          if (!open) {
+            throw new TemplateError('{{else}} without a matching {{#if}}', token.line, token.column);
+          }
+          return nodes;
+        case 'close':
+          if (!open) {
+            throw new TemplateError(`{{/${token.block}}} without a matching opening block`, token.line, token.column);
+          }
+          if (token.block !== open.block) {
+            throw new TemplateError(
+              `Expected {{/${open.block}}} to close block opened at line ${open.line}, found {{/${token.block}}}`,
+              token.line,
+              token.column
+            );
+          }
+          return nodes;
+      }
+    }
+
+    if (open) {
+      throw new TemplateError(`Unclosed {{#${open.block}}} block`, open.line, open.column);
+    }
+    return nodes;
+  };
+
+  return parseNodes();
+}
+
+/**
+ * Collect the argument names referenced by a template, in order of first appearance
+ * When partials are given, names used by included prompts are collected as well,
+ * except those bound by the include tag.
+ */
+export function collectTemplateVariables(nodes: TemplateNode[], partials?: PartialMap): string[] {
+  const names = new Set<string>();
+
+  const visit = (list: TemplateNode[], bound: Set<string>, stack: string[]) => {
+    const add = (name: string) => {
+      if (name !== 'this' && !name.startsWith('@') && !bound.has(name)) {
+        names.add(name);
+      }
+    };
+
+    for (const node of list) {
+      if (node.type === 'text') continue;
+      if (node.type === 'partial') {
+        node.args.filter((arg) => arg.isVariable).forEach((arg) => add(arg.value));
+        const partial = partials?.get(node.name);
+        if (partial && !stack.includes(node.name)) {
+          const innerBound = new Set([...bound, ...node.args.map((arg) => arg.name)]);
+          visit(partial, innerBound, [...stack, node.name]);
+        }
+        continue;
+      }
+      add(node.expression.name);
+      if (node.type === 'if') {
+        visit(node.consequent, bound, stack);
+        visit(node.alternate, bound, stack);
+      } else if (node.type === 'each') {
+        visit(node.body, bound, stack);
+      }
+    }
+  };
+
+  visit(nodes, new Set(), []);
+  return Array.from(names);
+}
+
+/**
+ * Collect the names of prompts included directly by a template
+ */
+export function collectPartialNames(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'partial') {
+        names.add(node.name);
+      } else if (node.type === 'if') {
+        visit(node.consequent);
+        visit(node.alternate);
+      } else if (node.type === 'each') {
+        visit(node.body);
+      }
+    }
+  };
+
+  visit(nodes);
+  return Array.from(names);
+}
+
+function evaluate(expression: TemplateExpression, scope: Map<string, string>): string | undefined {
+  let value = scope.get(expression.name);
+  for (const filter of expression.filters) {
+    value = (FILTERS[filter.name] as FilterFunction)(value, filter.args);
+  }
+  return value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Map<string, string>, partials: PartialMap): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'partial': {
+        const partial = partials.get(node.name);
+        if (!partial) {
+          throw new TemplateError(`Included prompt "${node.name}" was not loaded`, node.line, node.column);
+        }
+        const partialScope = new Map(scope);
+        for (const arg of node.args) {
+          const value = arg.isVariable ? scope.get(arg.value) : arg.value;
+          if (value === undefined) partialScope.delete(arg.name);
+          else partialScope.set(arg.name, value);
+        }
+        // Drop the blank lines that usually surround a prompt body
+        const rendered = renderNodes(partial, partialScope, partials).replace(/^(?:[ \t]*\r?\n)+/, '').trimEnd();
+        if (node.standalone) {
+          output += rendered.split('\n').map((line) => (line ? node.indent + line : line)).join('\n') + '\n';
+        } else {
+          output += rendered;
+        }
+        break;
+      }
+      case 'output': {
+        const value = evaluate(node.expression, scope);
+        // Unknown plain placeholders are left untouched, as with the original substitution
+        if (value === undefined) {
+          output += node.expression.filters.length === 0 ? node.source : '';
+        } else {
+          output += value;
+        }
+        break;
+      }
+      case 'if': {
+        const value = evaluate(node.expression, scope);
+        const truthy = value !== undefined && !FALSY_VALUES.has(value.trim().toLowerCase());
+        output += renderNodes(truthy !== node.negate ? node.consequent : node.alternate, scope, partials);
+        break;
+      }
+      case 'each': {
+        const items = (evaluate(node.expression, scope) ?? '')
+          .split(',')
+          .map((item) => item.trim())
+          .filter((item) => item !== '');
+        items.forEach((item, index) => {
+          const itemScope = new Map(scope);
+          itemScope.set('this', item);
+          itemScope.set('@index', String(index));
+          itemScope.set('@first', String(index === 0));
+          itemScope.set('@last', String(index === items.length - 1));
+          output += renderNodes(node.body, itemScope, partials);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a parsed template with the given argument values
+ */
+export function renderTemplateNodes(nodes: TemplateNode[], values: Record<string, string>, partials: PartialMap = new Map()): string {
+  return renderNodes(nodes, new Map(Object.entries(values)), partials);
+}
+
+/**
+ * Parse and render a template with the given argument values
+ */
+export function renderTemplate(source: string, values: Record<string, string>, options: ParseOptions = {}): string {
+  return renderTemplateNodes(parseTemplate(source, options), values);
+}
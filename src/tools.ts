@@ -0,0 +1,505 @@
+/**
+ * MCP tools handler - exposes prompt library operations as MCP tools
+ */
+
+import {
+  CallToolResult,
+  ListToolsResult,
+  Tool,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import matter from 'gray-matter';
+import { PromptFileOperations } from './fileOperations.js';
+import { computeFacets, summarizePrompt } from './promptQuery.js';
+import { SyncScheduler } from './syncScheduler.js';
+import { PromptInfo } from './types.js';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+const DEFAULT_HISTORY_LIMIT = 5;
+
+const SYNC_TOOLS = ['sync_status', 'sync_now'];
+
+const TOOLS: Tool[] = [
+  {
+    name: 'search_prompts',
+    title: 'Search prompts',
+    description: 'Ranked full-text search over prompt names, titles, descriptions, tags and content. Returns matching prompt names with a score and a highlighted snippet.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search terms',
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum number of results (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT})`,
+        },
+      },
+      required: ['query'],
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  {
+    name: 'query_prompts',
+    title: 'Query prompts',
+    description: 'Filter prompts by facets, e.g. "tags:security difficulty:advanced category:development". Comma-separated values are alternatives (tags:security,testing); other words are matched with full-text search. Returns the matching prompts and their tag, category and difficulty counts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Filters (tags:, category:, difficulty:) and optional search terms; empty lists all prompts',
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum number of prompts to return (default ${DEFAULT_QUERY_LIMIT}, max ${MAX_QUERY_LIMIT})`,
+        },
+      },
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  {
+    name: 'lint_prompts',
+    title: 'Lint prompts',
+    description: 'Report prompt problems with line numbers: invalid YAML, frontmatter that violates the built-in schema or the library\'s prompt-schema.json, template syntax errors and broken includes. Prompts with problems are still listed but flagged.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Only report this prompt (default: all prompts)',
+        },
+      },
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  {
+    name: 'get_prompt_source',
+    title: 'Get prompt source',
+    description: 'Read the raw markdown of a prompt, including its frontmatter, and its current version. Pass the version to update_prompt, rename_prompt or delete_prompt to make sure nobody changed the prompt in the meantime.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Prompt name, e.g. "code_review" or "team/code_review"',
+        },
+      },
+      required: ['name'],
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  {
+    name: 'create_prompt',
+    title: 'Create prompt',
+    description: 'Create a new prompt file. The name may contain "/" to create the prompt in a subfolder; it is lowercased and characters other than letters, digits, "-" and "_" are replaced with "_".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the new prompt',
+        },
+        content: {
+          type: 'string',
+          description: 'Markdown body of the prompt, without frontmatter',
+        },
+        metadata: {
+          type: 'object',
+          description: 'Frontmatter fields, e.g. title, description, tags, arguments',
+        },
+      },
+      required: ['name', 'content'],
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+    },
+  },
+  {
+    name: 'update_prompt',
+    title: 'Update prompt',
+    description: 'Replace the body and/or the frontmatter of an existing prompt. Fails if the prompt changed since expected_version was read with get_prompt_source.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the prompt to update',
+        },
+        expected_version: {
+          type: 'string',
+          description: 'Version returned by get_prompt_source or a previous write',
+        },
+        content: {
+          type: 'string',
+          description: 'New markdown body, without frontmatter (keeps the current body when omitted)',
+        },
+        metadata: {
+          type: 'object',
+          description: 'New frontmatter fields, replacing all current ones (keeps the current frontmatter when omitted)',
+        },
+      },
+      required: ['name', 'expected_version'],
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'rename_prompt',
+    title: 'Rename prompt',
+    description: 'Rename or move a prompt, e.g. into a subfolder. Fails if a prompt with the new name already exists.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Current name of the prompt',
+        },
+        new_name: {
+          type: 'string',
+          description: 'New name of the prompt',
+        },
+        expected_version: {
+          type: 'string',
+          description: 'Optional version returned by get_prompt_source; the rename fails if the prompt changed since',
+        },
+      },
+      required: ['name', 'new_name'],
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+    },
+  },
+  {
+    name: 'delete_prompt',
+    title: 'Delete prompt',
+    description: 'Delete a prompt file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the prompt to delete',
+        },
+        expected_version: {
+          type: 'string',
+          description: 'Optional version returned by get_prompt_source; the deletion fails if the prompt changed since',
+        },
+      },
+      required: ['name'],
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+    },
+  },
+  {
+    name: 'sync_status',
+    title: 'Sync status',
+    description: 'Show when each synced Git repository was last attempted and last synced successfully, its commit and last error, recent sync runs with the files they changed, and when the next background sync is due.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: `Number of recent runs to include, newest first (default ${DEFAULT_HISTORY_LIMIT})`,
+        },
+      },
+    },
+    annotations: {
+      readOnlyHint: true,
+    },
+  },
+  {
+    name: 'sync_now',
+    title: 'Sync now',
+    description: 'Sync the configured Git repositories right away instead of waiting for the background sync. Returns each repository\'s result and the prompt files that changed; the prompt list updates once the file watcher sees the changes.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+];
+
+/**
+ * Create a successful tool result with the data as JSON text and structured content
+ */
+function jsonResult(data: Record<string, unknown>): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+    structuredContent: data,
+  };
+}
+
+/**
+ * Create a tool error result, which is reported to the model instead of failing the request
+ */
+function errorResult(message: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: message,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Build prompt markdown with YAML frontmatter
+ */
+function buildPromptMarkdown(metadata: Record<string, unknown>, content: string): string {
+  return matter.stringify(content.endsWith('\n') ? content : `${content}\n`, metadata);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a required non-empty string argument
+ */
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`The "${key}" argument must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional string argument
+ */
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`The "${key}" argument must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional frontmatter object argument
+ */
+function optionalMetadata(args: Record<string, unknown>): Record<string, unknown> | undefined {
+  const value = args.metadata;
+  if (value !== undefined && !isPlainObject(value)) {
+    throw new Error('The "metadata" argument must be an object');
+  }
+  return value;
+}
+
+export class ToolHandlers {
+  constructor(private fileOps: PromptFileOperations, private sync?: SyncScheduler) {}
+
+  /**
+   * Handle tools/list request
+   * Sync tools are only listed when the server syncs repositories
+   */
+  async handleListTools(): Promise<ListToolsResult> {
+    return {
+      tools: this.sync ? TOOLS : TOOLS.filter((tool) => !SYNC_TOOLS.includes(tool.name)),
+    };
+  }
+
+  /**
+   * Handle tools/call request
+   */
+  async handleCallTool(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    switch (name) {
+      case 'search_prompts':
+        return await this.searchPrompts(args);
+      case 'query_prompts':
+        return await this.queryPrompts(args);
+      case 'lint_prompts':
+        return await this.lintPrompts(args);
+      case 'sync_status':
+        if (this.sync) {
+          return this.syncStatus(this.sync, args);
+        }
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+      case 'sync_now':
+        if (this.sync) {
+          return await this.syncNow(this.sync);
+        }
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+      case 'get_prompt_source':
+      case 'create_prompt':
+      case 'update_prompt':
+      case 'rename_prompt':
+      case 'delete_prompt':
+        try {
+          return jsonResult(await this.callPromptFileTool(name, args));
+        } catch (error) {
+          return errorResult(error instanceof Error ? error.message : 'Unknown error');
+        }
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * query_prompts tool
+   */
+  private async queryPrompts(args: Record<string, unknown>): Promise<CallToolResult> {
+    const { query = '', limit } = args;
+    if (typeof query !== 'string') {
+      return errorResult('The "query" argument must be a string');
+    }
+
+    let prompts: PromptInfo[];
+    try {
+      prompts = await this.fileOps.queryPrompts(query);
+    } catch (error) {
+      return errorResult(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    const resultLimit = typeof limit === 'number' && limit > 0
+      ? Math.min(Math.floor(limit), MAX_QUERY_LIMIT)
+      : DEFAULT_QUERY_LIMIT;
+
+    return jsonResult({
+      query,
+      total: prompts.length,
+      prompts: prompts.slice(0, resultLimit).map(summarizePrompt),
+      facets: computeFacets(prompts),
+    });
+  }
+
+  /**
+   * sync_status tool
+   */
+  private syncStatus(sync: SyncScheduler, args: Record<string, unknown>): CallToolResult {
+    const { limit } = args;
+    const historyLimit = typeof limit === 'number' && limit >= 0 ? Math.floor(limit) : DEFAULT_HISTORY_LIMIT;
+    const { history, repositories, nextSyncAt } = sync.getStatus();
+
+    return jsonResult({
+      repositories: Object.values(repositories).sort((a, b) => a.name.localeCompare(b.name)),
+      recentRuns: history.slice(Math.max(0, history.length - historyLimit)).reverse(),
+      ...(nextSyncAt && { nextSyncAt }),
+    });
+  }
+
+  /**
+   * sync_now tool
+   */
+  private async syncNow(sync: SyncScheduler): Promise<CallToolResult> {
+    try {
+      const repositories = await sync.syncNow();
+      const changed = repositories.filter((result) => result.status === 'synced' && result.commit !== result.previousCommit);
+      return jsonResult({
+        changed: changed.map((result) => result.name),
+        changedFiles: changed.flatMap((result) => result.changedFiles ?? []),
+        repositories,
+      });
+    } catch (error) {
+      return errorResult(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * lint_prompts tool
+   */
+  private async lintPrompts(args: Record<string, unknown>): Promise<CallToolResult> {
+    const { name } = args;
+    if (name !== undefined && typeof name !== 'string') {
+      return errorResult('The "name" argument must be a string');
+    }
+
+    const report = await this.fileOps.getDiagnostics();
+    const prompts = name === undefined ? report.prompts : report.prompts.filter((prompt) => prompt.name === name);
+
+    return jsonResult({
+      ...report,
+      prompts,
+      problemCount: prompts.reduce((total, prompt) => total + prompt.diagnostics.length, 0),
+    });
+  }
+
+  /**
+   * Tools that read or write prompt files
+   * Errors (invalid arguments, missing prompts, version conflicts) become tool error results
+   */
+  private async callPromptFileTool(name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const promptName = requireString(args, 'name');
+
+    switch (name) {
+      case 'get_prompt_source':
+        return { ...(await this.fileOps.readPromptSource(promptName)) };
+      case 'create_prompt': {
+        const content = optionalString(args, 'content') ?? '';
+        const markdown = buildPromptMarkdown(optionalMetadata(args) ?? {}, content);
+        return { ...(await this.fileOps.createPrompt(promptName, markdown)) };
+      }
+      case 'update_prompt': {
+        const expectedVersion = requireString(args, 'expected_version');
+        const content = optionalString(args, 'content');
+        const metadata = optionalMetadata(args);
+        const current = matter((await this.fileOps.readPromptSource(promptName)).content);
+        const markdown = buildPromptMarkdown(
+          metadata ?? current.data,
+          content ?? current.content.replace(/^\n/, '')
+        );
+        return { ...(await this.fileOps.updatePrompt(promptName, markdown, expectedVersion)) };
+      }
+      case 'rename_prompt': {
+        const newName = requireString(args, 'new_name');
+        const expectedVersion = optionalString(args, 'expected_version');
+        return { ...(await this.fileOps.renamePrompt(promptName, newName, expectedVersion)) };
+      }
+      default: {
+        const expectedVersion = optionalString(args, 'expected_version');
+        await this.fileOps.deletePrompt(promptName, expectedVersion);
+        return { name: promptName, deleted: true };
+      }
+    }
+  }
+
+  /**
+   * search_prompts tool
+   */
+  private async searchPrompts(args: Record<string, unknown>): Promise<CallToolResult> {
+    const { query, limit } = args;
+    if (typeof query !== 'string' || !query.trim()) {
+      return errorResult('The "query" argument must be a non-empty string');
+    }
+
+    const resultLimit = typeof limit === 'number' && limit > 0
+      ? Math.min(Math.floor(limit), MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT;
+    const results = await this.fileOps.searchPrompts(query, resultLimit);
+
+    return jsonResult({ query, results });
+  }
+}
@@ -2,6 +2,13 @@
  * Type definitions for the prompts MCP server
  */
 
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
 export interface PromptMetadata {
   title?: string;
   description?: string;
@@ -10,13 +17,216 @@ export interface PromptMetadata {
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   author?: string;
   version?: string;
+  arguments?: PromptArgument[];
+  inferArguments?: boolean;
+  partial?: boolean;
   [key: string]: unknown;
 }
 
+/**
+ * A problem found in a prompt file's frontmatter
+ */
+export interface PromptDiagnostic {
+  /** Where the problem was found */
+  source: 'yaml' | 'schema' | 'user-schema' | 'template';
+  message: string;
+  /** 1-based line in the prompt file */
+  line: number;
+  column?: number;
+  /** Frontmatter field, e.g. "difficulty" or "arguments[0].name" */
+  field?: string;
+}
+
+/**
+ * A prompt name provided by more than one source
+ */
+export interface ShadowedPrompt {
+  name: string;
+  /** File that is served */
+  filePath: string;
+  /** Files hidden by it, in precedence order */
+  shadowed: string[];
+}
+
+export interface DiagnosticsReport {
+  /** Set when the user-supplied schema could not be loaded */
+  schemaError?: string;
+  /** Prompts with at least one diagnostic */
+  prompts: Array<{ name: string; diagnostics: PromptDiagnostic[] }>;
+  /** Prompt names provided by several sources */
+  shadowed?: ShadowedPrompt[];
+}
+
 export interface PromptInfo {
   name: string;
   metadata: PromptMetadata;
   preview: string;
+  arguments?: PromptArgument[];
+  includes?: string[];
+  /** Absolute path of the prompt file, used to read it without searching the directory tree */
+  filePath?: string;
+  /** Frontmatter problems; the prompt stays usable but is flagged */
+  diagnostics?: PromptDiagnostic[];
+}
+
+export type TransportType = 'stdio' | 'http';
+
+export interface HttpServerOptions {
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Accepted Host header names; requests for other hosts are rejected to prevent DNS rebinding */
+  allowedHosts?: string[];
+  /** Token every request must send as `Authorization: Bearer <token>`; required when host is not a loopback address */
+  authToken?: string;
+}
+
+/**
+ * A directory of prompts merged into the library
+ */
+export interface PromptDirectory {
+  path: string;
+  /** Prefix for the prompt names, e.g. "team" serves team/review for review.md */
+  namespace?: string;
+  /** When sources provide the same name, the higher priority wins, then the earlier source */
+  priority?: number;
+  /** Folders below path that are not part of this source, e.g. a synced repository served as its own source */
+  exclude?: string[];
+}
+
+/**
+ * How a repository is synced: plain git, the GitHub CLI, or copying a local directory
+ */
+export type SyncProviderName = 'git' | 'github' | 'local';
+
+/**
+ * What a sync does with files edited inside a synced repository:
+ * fail when the update touches them, stash and reapply them, keep them over upstream, or discard them
+ */
+export type PullStrategy = 'fail' | 'stash' | 'overlay' | 'reset';
+
+/**
+ * How the checked-out commit relates to the new one
+ * ahead and diverged mean the checkout has commits upstream does not have, e.g. local commits or a force-push
+ */
+export type SyncHistory = 'fast-forward' | 'ahead' | 'diverged' | 'unknown';
+
+/**
+ * A file edited locally that the update also changed
+ */
+export interface SyncConflict {
+  /** Relative to the prompts directory */
+  file: string;
+  /** Which version is in the folder now; unresolved when the sync failed because of it */
+  resolution: 'upstream' | 'local' | 'unresolved';
+}
+
+export interface GitRepositoryConfig {
+  /** GitHub repository (user/repo or URL), any other git URL or a local path */
+  url: string;
+  /** Defaults to github for GitHub repositories and git for everything else */
+  provider?: SyncProviderName;
+  /** Branch, tag or commit; defaults to the global ref */
+  ref?: string;
+  /** Folder inside the prompts directory; defaults to the repository name */
+  name?: string;
+  /** Only this directory of the repository is checked out */
+  subdirectory?: string;
+  /** Defaults to the global pull strategy */
+  pullStrategy?: PullStrategy;
+}
+
+export interface GitHubSyncConfig {
+  /** Repository cloned into the prompts directory; sync is skipped when unset */
+  repoUrl?: string;
+  /** Provider for repoUrl */
+  provider?: SyncProviderName;
+  /** Branch, tag or commit */
+  ref: string;
+  /** Check out the commit in prompts.lock and fail instead of resolving the ref again */
+  frozen: boolean;
+  /** Further repositories, synced in parallel with repoUrl */
+  repositories?: GitRepositoryConfig[];
+  /** Seconds between background syncs while the server runs; unset or 0 syncs only on startup */
+  syncInterval?: number;
+  /** What to do with local edits in synced repositories; defaults to fail */
+  pullStrategy?: PullStrategy;
+}
+
+export interface RepositorySyncResult {
+  /** Folder inside the prompts directory */
+  name: string;
+  url: string;
+  ref: string;
+  status: 'synced' | 'skipped' | 'failed';
+  commit?: string;
+  /** Commit before the sync, unset when the repository was cloned */
+  previousCommit?: string;
+  /** Files changed since previousCommit, relative to the prompts directory */
+  changedFiles?: string[];
+  /** Set when the commit changed and its history had to be checked */
+  history?: SyncHistory;
+  /** Local edits that collided with the update */
+  conflicts?: SyncConflict[];
+  /** Stash commit holding local edits that could not be reapplied */
+  stash?: string;
+  error?: string;
+}
+
+/**
+ * What started a sync
+ */
+export type SyncTrigger = 'startup' | 'background' | 'manual';
+
+export interface SyncRun {
+  trigger: SyncTrigger;
+  startedAt: string;
+  finishedAt: string;
+  repositories: RepositorySyncResult[];
+  /** Set when the sync as a whole failed, e.g. a frozen sync */
+  error?: string;
+}
+
+/**
+ * Latest known state of one repository
+ */
+export interface RepositorySyncState {
+  name: string;
+  url: string;
+  ref: string;
+  /** Result of the last attempt */
+  status: RepositorySyncResult['status'];
+  lastAttempt: string;
+  lastSuccess?: string;
+  /** Commit of the last successful sync */
+  commit?: string;
+  /** Error of the last attempt */
+  error?: string;
+  /** Conflicts of the last attempt */
+  conflicts?: SyncConflict[];
+}
+
+export interface SyncState {
+  version: 1;
+  /** Keyed by folder name */
+  repositories: Record<string, RepositorySyncState>;
+  /** Most recent runs, oldest first */
+  history: SyncRun[];
+}
+
+/**
+ * Settings from the config file, environment variables and command line, see config.ts
+ */
+export interface PromptsMcpConfig {
+  /** Primary prompts directory: new prompts and synced repositories go here */
+  promptsDir: string;
+  /** promptsDir followed by the additional sources */
+  sources: PromptDirectory[];
+  /** Where the prompt index is kept, $XDG_CACHE_HOME/prompts-mcp-server by default */
+  cacheDir: string;
+  transport: TransportType;
+  http: HttpServerOptions;
+  github: GitHubSyncConfig;
 }
 
 export interface ServerConfig {
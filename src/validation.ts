@@ -0,0 +1,179 @@
+/**
+ * Frontmatter parsing and schema validation with per-file diagnostics
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import matter from 'gray-matter';
+import { PromptDiagnostic } from './types.js';
+
+/**
+ * Optional JSON Schema in the root of the prompts directory, applied on top of the built-in schema
+ */
+export const USER_SCHEMA_FILE = 'prompt-schema.json';
+
+export interface ParsedFrontmatter {
+  data: Record<string, unknown>;
+  content: string;
+  diagnostics: PromptDiagnostic[];
+}
+
+const ARGUMENT_NAME_PATTERN = '^[A-Za-z_][A-Za-z0-9_-]*$';
+
+const ARGUMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', pattern: ARGUMENT_NAME_PATTERN },
+    description: { type: 'string' },
+    required: { type: 'boolean' },
+    default: { type: ['string', 'number', 'boolean'] },
+  },
+  required: ['name'],
+};
+
+/**
+ * Built-in schema for the frontmatter fields the server understands
+ * Other fields are allowed and left alone
+ */
+const BUILTIN_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    category: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    difficulty: { enum: ['beginner', 'intermediate', 'advanced'] },
+    author: { type: 'string' },
+    version: { type: ['string', 'number'] },
+    arguments: {
+      type: 'array',
+      // Either a bare argument name or an argument object
+      items: {
+        if: { type: 'string' },
+        then: { pattern: ARGUMENT_NAME_PATTERN },
+        else: ARGUMENT_SCHEMA,
+      },
+    },
+    inferArguments: { type: 'boolean' },
+    partial: { type: 'boolean' },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateBuiltin = ajv.compile(BUILTIN_SCHEMA);
+
+// Opening frontmatter block, used to recover the body when the YAML cannot be parsed
+const FRONTMATTER_BLOCK = /^---\r?\n[\s\S]*?\r?\n---[^\n]*(?:\n|$)/;
+
+/**
+ * Parse frontmatter like gray-matter, but report YAML errors as diagnostics
+ * instead of throwing, so a broken file still yields its body
+ */
+export function parseFrontmatter(source: string): ParsedFrontmatter {
+  try {
+    // Passing options bypasses gray-matter's cache, which would return a broken file unparsed the second time
+    const parsed = matter(source, {});
+    return { data: parsed.data, content: parsed.content, diagnostics: [] };
+  } catch (error) {
+    const yamlError = error as { reason?: string; message?: string; mark?: { line: number; column: number } };
+    // The YAML text starts with the newline after the opening "---", so its line index is the file line
+    const diagnostic: PromptDiagnostic = {
+      source: 'yaml',
+      message: `Invalid YAML frontmatter: ${yamlError.reason || yamlError.message || 'Unknown error'}`,
+      line: yamlError.mark ? yamlError.mark.line + 1 : 1,
+      ...(yamlError.mark && { column: yamlError.mark.column + 1 }),
+    };
+    return { data: {}, content: source.replace(FRONTMATTER_BLOCK, ''), diagnostics: [diagnostic] };
+  }
+}
+
+/**
+ * Compile a user-supplied JSON Schema
+ * Each schema gets its own Ajv instance, since Ajv refuses a second schema with the same $id
+ * Throws if the schema itself is invalid
+ */
+export function compileUserSchema(schema: unknown): ValidateFunction {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object');
+  }
+  return new Ajv({ allErrors: true, strict: false }).compile(schema);
+}
+
+/**
+ * Validate parsed frontmatter against the built-in schema and an optional user schema
+ */
+export function validateFrontmatter(
+  data: Record<string, unknown>,
+  source: string,
+  userSchema?: ValidateFunction
+): PromptDiagnostic[] {
+  const diagnostics: PromptDiagnostic[] = [];
+
+  if (!validateBuiltin(data)) {
+    diagnostics.push(...toDiagnostics(validateBuiltin.errors, 'schema', source));
+  }
+  if (userSchema && !userSchema(data)) {
+    diagnostics.push(...toDiagnostics(userSchema.errors, 'user-schema', source));
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Convert Ajv errors to diagnostics, pointing at the line of the top-level field
+ */
+function toDiagnostics(
+  errors: ErrorObject[] | null | undefined,
+  diagnosticSource: PromptDiagnostic['source'],
+  source: string
+): PromptDiagnostic[] {
+  const seen = new Set<string>();
+  const diagnostics: PromptDiagnostic[] = [];
+
+  for (const error of errors || []) {
+    // if/then/else also reports the failed branch itself, the branch errors are more useful
+    if (error.keyword === 'if') continue;
+
+    const segments = error.instancePath.split('/').slice(1);
+    if (error.keyword === 'required' && typeof error.params.missingProperty === 'string') {
+      segments.push(error.params.missingProperty);
+    }
+    const field = segments
+      .map((segment, index) => (/^\d+$/.test(segment) ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`))
+      .join('');
+
+    let message = error.keyword === 'required' ? 'is required' : error.message || 'is invalid';
+    if (error.keyword === 'enum' && Array.isArray(error.params.allowedValues)) {
+      message = `must be one of: ${error.params.allowedValues.join(', ')}`;
+    }
+    message = field ? `${field} ${message}` : `Frontmatter ${message}`;
+
+    if (seen.has(message)) continue;
+    seen.add(message);
+
+    diagnostics.push({
+      source: diagnosticSource,
+      message,
+      line: findFieldLine(source, segments[0]),
+      ...(field && { field }),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Find the line of a top-level frontmatter field, or the first line if it is not found
+ */
+function findFieldLine(source: string, field?: string): number {
+  if (!field) return 1;
+
+  const lines = source.split('\n');
+  for (let index = 1; index < lines.length; index++) {
+    const line = lines[index] as string;
+    if (/^---\s*$/.test(line)) break;
+    if (line.startsWith(`${field}:`) || line.startsWith(`"${field}":`) || line.startsWith(`'${field}':`)) {
+      return index + 1;
+    }
+  }
+  return 1;
+}
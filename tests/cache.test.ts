@@ -2,8 +2,11 @@
  * Tests for PromptCache class
  */
 
+import fs from 'fs/promises';
+import path from 'path';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { PromptCache } from '../src/cache.js';
+import { PromptCache, WATCH_DEBOUNCE_MS, WATCH_STABILITY_MS } from '../src/cache.js';
+import { CACHE_INDEX_VERSION, getCacheIndexPath } from '../src/cacheIndex.js';
 import { createTempDir, cleanupTempDir, createTestPromptFile, createSamplePromptInfo, mockConsoleError, wait } from './helpers/testUtils.js';
 import { createMockWatcher } from './helpers/mocks.js';
 
@@ -206,6 +209,406 @@ describe('PromptCache', () => {
     });
   });
 
+  describe('getDiagnostics', () => {
+    it('should keep prompts with broken YAML and record the error', async () => {
+      const fs = await import('fs/promises');
+      await fs.writeFile(`${tempDir}/broken.md`, '---\ntitle: [Broken\n---\nStill {{usable}}');
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('broken')?.arguments?.map(a => a.name)).toEqual(['usable']);
+      expect(cache.getDiagnostics().prompts).toEqual([
+        { name: 'broken', diagnostics: [expect.objectContaining({ source: 'yaml', line: 3 })] }
+      ]);
+    });
+
+    it('should validate against prompt-schema.json in the prompts directory', async () => {
+      const fs = await import('fs/promises');
+      await fs.writeFile(`${tempDir}/prompt-schema.json`, JSON.stringify({ required: ['author'] }));
+      await createTestPromptFile(tempDir, 'anonymous', { title: 'Anonymous' });
+      await createTestPromptFile(tempDir, 'signed', { author: 'Ada' });
+
+      await cache.initializeCache();
+
+      expect(cache.getDiagnostics()).toEqual({
+        prompts: [
+          { name: 'anonymous', diagnostics: [{ source: 'user-schema', message: 'author is required', line: 1, field: 'author' }] }
+        ]
+      });
+    });
+
+    it('should record template errors with their file line', async () => {
+      await createTestPromptFile(tempDir, 'unclosed', { title: 'Unclosed' }, 'Intro\n{{#if tests}}\nbody');
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('unclosed')?.diagnostics).toEqual([
+        { source: 'template', message: 'Unclosed {{#if}} block', line: 6, column: 1 }
+      ]);
+    });
+
+    it('should flag tags that are rendered as literal text', async () => {
+      await createTestPromptFile(tempDir, 'jinja', { title: 'Jinja' }, 'Intro\nHello {{ user.name }}');
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('jinja')?.arguments).toEqual([]);
+      expect(cache.getPrompt('jinja')?.diagnostics).toEqual([
+        { source: 'template', message: 'Invalid expression "user.name", rendered as literal text', line: 6, column: 7 }
+      ]);
+    });
+
+    it('should flag system role markers, which are sent as user messages', async () => {
+      await createTestPromptFile(tempDir, 'few-shot', { title: 'Few shot' }, 'Intro\n<!-- role: system -->\nBe brief\n<!-- role: user -->\n{{code}}');
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('few-shot')?.diagnostics).toEqual([
+        { source: 'template', message: 'System messages are sent as user messages, MCP prompts have no system role', line: 6, column: 1 }
+      ]);
+    });
+
+    it('should report a broken user schema', async () => {
+      const fs = await import('fs/promises');
+      await fs.writeFile(`${tempDir}/prompt-schema.json`, '{ not json');
+      await createTestPromptFile(tempDir, 'prompt');
+
+      await cache.initializeCache();
+
+      expect(cache.size()).toBe(1);
+      expect(cache.getDiagnostics().schemaError).toContain('Invalid prompt-schema.json');
+    });
+
+    it('should load a user schema with an $id on every initialization', async () => {
+      const schema = { $id: 'https://example.com/prompt.json', type: 'object', required: ['author'] };
+      await fs.writeFile(`${tempDir}/prompt-schema.json`, JSON.stringify(schema));
+      await createTestPromptFile(tempDir, 'prompt');
+
+      await cache.initializeCache();
+      await cache.initializeCache();
+
+      expect(cache.getDiagnostics().schemaError).toBeUndefined();
+      expect(cache.getPrompt('prompt')?.diagnostics).toEqual([
+        expect.objectContaining({ source: 'user-schema', field: 'author' })
+      ]);
+    });
+  });
+
+  describe('multiple sources', () => {
+    let personalDir: string;
+    let teamDir: string;
+    let companyDir: string;
+
+    beforeEach(async () => {
+      personalDir = `${tempDir}/personal`;
+      teamDir = `${tempDir}/team`;
+      companyDir = `${tempDir}/company`;
+      await cache.cleanup();
+      cache = new PromptCache([
+        { path: personalDir },
+        { path: teamDir, namespace: 'team' },
+        { path: companyDir, priority: 10 },
+      ]);
+    });
+
+    it('should merge sources and prefix namespaced prompts', async () => {
+      await createTestPromptFile(personalDir, 'notes');
+      await createTestPromptFile(`${teamDir}/review`, 'security');
+      await createTestPromptFile(companyDir, 'onboarding');
+
+      await cache.initializeCache();
+
+      expect(cache.getAllPrompts().map(p => p.name).sort()).toEqual(['notes', 'onboarding', 'team/review/security']);
+      expect(cache.getPrompt('team/review/security')?.filePath).toBe(`${teamDir}/review/security.md`);
+    });
+
+    it('should serve the prompt with the highest priority and report the shadowed ones', async () => {
+      await createTestPromptFile(personalDir, 'style', { title: 'Personal' });
+      await createTestPromptFile(companyDir, 'style', { title: 'Company' });
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('style')?.metadata.title).toBe('Company');
+      expect(cache.getDiagnostics().shadowed).toEqual([
+        { name: 'style', filePath: `${companyDir}/style.md`, shadowed: [`${personalDir}/style.md`] },
+      ]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Prompt "style" from ${companyDir}/style.md shadows ${personalDir}/style.md`);
+    });
+
+    it('should prefer earlier sources with the same priority', async () => {
+      cache = new PromptCache([{ path: personalDir }, { path: teamDir }]);
+      await createTestPromptFile(personalDir, 'style', { title: 'Personal' });
+      await createTestPromptFile(teamDir, 'style', { title: 'Team' });
+
+      await cache.initializeCache();
+
+      expect(cache.getPrompt('style')?.metadata.title).toBe('Personal');
+    });
+
+    it('should serve the shadowed prompt again when the winner is removed', async () => {
+      await createTestPromptFile(personalDir, 'style', { title: 'Personal' }, 'Be concise');
+      await createTestPromptFile(companyDir, 'style', { title: 'Company' }, 'Be formal');
+      await cache.initializeCache();
+
+      await fs.rm(`${companyDir}/style.md`);
+      await cache.removeFile(`${companyDir}/style.md`);
+
+      expect(cache.getPrompt('style')?.metadata.title).toBe('Personal');
+      expect(cache.search('concise').map(r => r.name)).toEqual(['style']);
+      expect(cache.getDiagnostics().shadowed).toBeUndefined();
+    });
+
+    it('should keep serving the winner when a shadowed prompt changes', async () => {
+      await createTestPromptFile(personalDir, 'style', { title: 'Personal' });
+      await createTestPromptFile(companyDir, 'style', { title: 'Company' });
+      await cache.initializeCache();
+
+      await createTestPromptFile(personalDir, 'style', { title: 'Personal v2' });
+      await cache.refreshFile(`${personalDir}/style.md`);
+
+      expect(cache.getPrompt('style')?.metadata.title).toBe('Company');
+    });
+  });
+
+  describe('persistent index', () => {
+    let cacheDir: string;
+    let indexPath: string;
+
+    beforeEach(async () => {
+      cacheDir = await createTempDir();
+      indexPath = getCacheIndexPath(cacheDir, tempDir);
+      await cache.cleanup();
+      cache = new PromptCache(tempDir, { cacheDir });
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(cacheDir);
+    });
+
+    async function restart(): Promise<PromptCache> {
+      await cache.cleanup();
+      consoleErrorSpy.mockClear();
+      cache = new PromptCache(tempDir, { cacheDir });
+      await cache.initializeCache();
+      return cache;
+    }
+
+    it('should take unchanged files from the index on the next start', async () => {
+      await createTestPromptFile(tempDir, 'review', { title: 'Review' });
+      await fs.writeFile(path.join(tempDir, 'dated.md'), '---\ncreated: 2024-01-01\n---\n\nDated', 'utf-8');
+      await cache.initializeCache();
+      const before = cache.getAllPrompts();
+
+      await restart();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Parsed 0 changed prompt files, 2 unchanged from ${indexPath}`);
+      expect(cache.getAllPrompts().sort((a, b) => a.name.localeCompare(b.name)))
+        .toEqual(before.sort((a, b) => a.name.localeCompare(b.name)));
+      expect(cache.getPrompt('dated')?.metadata.created).toBeInstanceOf(Date);
+      expect(cache.search('review').map((result) => result.name)).toEqual(['review']);
+    });
+
+    it('should parse changed files and the prompts that include them again', async () => {
+      await createTestPromptFile(tempDir, 'partial', {}, 'About {{topic}}');
+      await createTestPromptFile(tempDir, 'main', {}, 'Intro {{> partial}}');
+      await createTestPromptFile(tempDir, 'other', {}, 'Other');
+      await cache.initializeCache();
+
+      await createTestPromptFile(tempDir, 'partial', {}, 'About {{topic}} for {{audience}}');
+      await restart();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Parsed 2 changed prompt files, 1 unchanged from ${indexPath}`);
+      expect(cache.getPrompt('main')?.arguments?.map((argument) => argument.name)).toEqual(['topic', 'audience']);
+    });
+
+    it('should compare content hashes when only the modification time changed', async () => {
+      const filePath = await createTestPromptFile(tempDir, 'review');
+      await cache.initializeCache();
+
+      const later = new Date(Date.now() + 60_000);
+      await fs.utimes(filePath, later, later);
+      await restart();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Parsed 0 changed prompt files, 1 unchanged from ${indexPath}`);
+    });
+
+    it('should rebuild a corrupt index or one from another format version', async () => {
+      await createTestPromptFile(tempDir, 'review');
+      await cache.initializeCache();
+
+      await fs.writeFile(indexPath, '{"version":1,"files":', 'utf-8');
+      await restart();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining(`Rebuilding ${indexPath}:`));
+      expect(cache.getPrompt('review')).toBeDefined();
+
+      await fs.writeFile(indexPath, '{"version":0,"files":{}}', 'utf-8');
+      await restart();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Rebuilding ${indexPath}: format version 0 is not ${CACHE_INDEX_VERSION}`);
+
+      const saved = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      expect(saved.version).toBe(CACHE_INDEX_VERSION);
+      expect(Object.keys(saved.files)).toEqual([path.join(tempDir, 'review.md')]);
+    });
+
+    it('should parse files again whose index entries are malformed', async () => {
+      await createTestPromptFile(tempDir, 'review', { title: 'Review' });
+      await createTestPromptFile(tempDir, 'other');
+      await cache.initializeCache();
+
+      const saved = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      saved.files[path.join(tempDir, 'review.md')].prompts = {};
+      await fs.writeFile(indexPath, JSON.stringify(saved), 'utf-8');
+      await restart();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Ignoring 1 malformed entries in ${indexPath}`);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Parsed 1 changed prompt files, 1 unchanged from ${indexPath}`);
+      expect(cache.getPrompt('review')?.metadata.title).toBe('Review');
+    });
+
+    it('should keep the index in the cache directory', async () => {
+      await createTestPromptFile(tempDir, 'review');
+      await cache.initializeCache();
+
+      expect(await fs.readdir(tempDir)).toEqual(['review.md']);
+      expect(await fs.readdir(cacheDir)).toEqual([path.basename(indexPath)]);
+    });
+
+    it('should not write an index without a cache directory', async () => {
+      await cache.cleanup();
+      cache = new PromptCache(tempDir);
+      await createTestPromptFile(tempDir, 'review');
+      await cache.initializeCache();
+
+      expect(await fs.readdir(cacheDir)).toEqual([]);
+      expect(await fs.readdir(tempDir)).toEqual(['review.md']);
+    });
+
+    it('should drop deleted files from the index', async () => {
+      const filePath = await createTestPromptFile(tempDir, 'review');
+      await createTestPromptFile(tempDir, 'other');
+      await cache.initializeCache();
+
+      await fs.unlink(filePath);
+      await restart();
+
+      expect(cache.getPrompt('review')).toBeUndefined();
+      const saved = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      expect(Object.keys(saved.files)).toEqual([path.join(tempDir, 'other.md')]);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit added, updated with the metadata diff, and removed', async () => {
+      await cache.initializeCache();
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await createTestPromptFile(tempDir, 'review', { title: 'Review', tags: ['code'] });
+      await cache.refreshFile(`${tempDir}/review.md`);
+      await createTestPromptFile(tempDir, 'review', { title: 'Review v2', category: 'dev' });
+      await cache.refreshFile(`${tempDir}/review.md`);
+      await fs.rm(`${tempDir}/review.md`);
+      await cache.removeFile(`${tempDir}/review.md`);
+
+      const events = listener.mock.calls.map(([event]) => event);
+      expect(events.map(e => e.type)).toEqual(['added', 'updated', 'removed']);
+      expect(events[0]).toMatchObject({ name: 'review', prompt: { metadata: { title: 'Review' } } });
+      expect(events[1]).toMatchObject({ name: 'review', previous: { metadata: { title: 'Review' } }, prompt: { metadata: { title: 'Review v2' } } });
+      expect(events[1].changes).toEqual([
+        { key: 'category', after: 'dev' },
+        { key: 'tags', before: ['code'] },
+        { key: 'title', before: 'Review', after: 'Review v2' },
+      ]);
+      expect(events[2]).toMatchObject({ name: 'review', previous: { metadata: { title: 'Review v2' } } });
+    });
+
+    it('should emit one reloaded event instead of one per prompt when the cache is loaded', async () => {
+      await createTestPromptFile(tempDir, 'test1');
+      await createTestPromptFile(tempDir, 'test2');
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await cache.initializeCache();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'reloaded', size: 2 });
+    });
+
+    it('should emit updated when a shadowed prompt takes over', async () => {
+      await cache.cleanup();
+      cache = new PromptCache([{ path: `${tempDir}/company`, priority: 10 }, { path: `${tempDir}/personal` }]);
+      await createTestPromptFile(`${tempDir}/company`, 'style', { title: 'Company' });
+      await createTestPromptFile(`${tempDir}/personal`, 'style', { title: 'Personal' });
+      await cache.initializeCache();
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await fs.rm(`${tempDir}/company/style.md`);
+      await cache.removeFile(`${tempDir}/company/style.md`);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0]?.[0]).toMatchObject({
+        type: 'updated',
+        name: 'style',
+        previous: { filePath: `${tempDir}/company/style.md` },
+        prompt: { filePath: `${tempDir}/personal/style.md` },
+        changes: [{ key: 'title', before: 'Company', after: 'Personal' }],
+      });
+    });
+
+    it('should emit updated for prompts that include a changed prompt', async () => {
+      await createTestPromptFile(tempDir, 'partial', {}, 'About {{topic}}');
+      await createTestPromptFile(tempDir, 'main', {}, 'Intro {{> partial}}');
+      await cache.initializeCache();
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await createTestPromptFile(tempDir, 'partial', {}, 'About {{topic}} for {{audience}}');
+      await cache.refreshFile(`${tempDir}/partial.md`);
+
+      expect(listener.mock.calls.map(([event]) => [event.type, event.name])).toEqual([
+        ['updated', 'partial'],
+        ['updated', 'main'],
+      ]);
+    });
+
+    it('should not emit when an empty library is loaded into an empty cache', async () => {
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await cache.initializeCache();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should emit an error for a file that cannot be loaded', async () => {
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      await cache.refreshFile(`${tempDir}/missing.md`);
+
+      expect(listener).toHaveBeenCalledWith({ type: 'error', message: expect.any(String), filePath: `${tempDir}/missing.md` });
+    });
+
+    it('should keep notifying other listeners when one throws, and stop after unsubscribing', async () => {
+      const failing = vi.fn(() => {
+        throw new Error('boom');
+      });
+      const listener = vi.fn();
+      cache.onEvent(failing);
+      const unsubscribe = cache.onEvent(listener);
+      await createTestPromptFile(tempDir, 'test1');
+
+      await cache.initializeCache();
+      unsubscribe();
+      await cache.initializeCache();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(failing).toHaveBeenCalledTimes(2);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Prompt cache listener failed:', 'boom');
+    });
+  });
+
   describe('initializeFileWatcher', () => {
     let mockWatcher: ReturnType<typeof createMockWatcher>;
 
@@ -230,21 +633,43 @@ describe('PromptCache', () => {
       cache.initializeFileWatcher();
       
       expect(chokidar.default.watch).toHaveBeenCalledWith(
-        expect.stringContaining('*.md'),
+        tempDir,
         {
-          ignored: /^\./,
+          ignored: expect.any(Function),
           persistent: true,
-          ignoreInitial: true
+          ignoreInitial: true,
+          atomic: true,
+          awaitWriteFinish: { stabilityThreshold: WATCH_STABILITY_MS, pollInterval: WATCH_STABILITY_MS / 4 }
         }
       );
     });
 
+    it('should ignore hidden paths below the prompts directory only', async () => {
+      const chokidar = await import('chokidar');
+      const hiddenRoot = path.join(tempDir, '.config', 'prompts');
+      const hiddenRootCache = new PromptCache(hiddenRoot);
+
+      cache.initializeFileWatcher();
+      hiddenRootCache.initializeFileWatcher();
+      const ignored = (index: number) => vi.mocked(chokidar.default.watch).mock.calls[index]?.[1]?.ignored as (filePath: string) => boolean;
+
+      expect(ignored(0)(tempDir)).toBe(false);
+      expect(ignored(0)(path.join(tempDir, 'team', 'review.md'))).toBe(false);
+      expect(ignored(0)(path.join(tempDir, '.git'))).toBe(true);
+      expect(ignored(0)(path.join(tempDir, '.git', 'review.md'))).toBe(true);
+      expect(ignored(0)(path.join(tempDir, 'team', '.draft.md'))).toBe(true);
+      expect(ignored(1)(path.join(hiddenRoot, 'review.md'))).toBe(false);
+      await hiddenRootCache.cleanup();
+    });
+
     it('should register event handlers', () => {
       cache.initializeFileWatcher();
       
       expect(mockWatcher.on).toHaveBeenCalledWith('add', expect.any(Function));
       expect(mockWatcher.on).toHaveBeenCalledWith('change', expect.any(Function));
       expect(mockWatcher.on).toHaveBeenCalledWith('unlink', expect.any(Function));
+      expect(mockWatcher.on).toHaveBeenCalledWith('addDir', expect.any(Function));
+      expect(mockWatcher.on).toHaveBeenCalledWith('unlinkDir', expect.any(Function));
       expect(mockWatcher.on).toHaveBeenCalledWith('error', expect.any(Function));
     });
 
@@ -293,6 +718,8 @@ describe('PromptCache', () => {
     let addHandler: Function;
     let changeHandler: Function;
     let unlinkHandler: Function;
+    let addDirHandler: Function;
+    let unlinkDirHandler: Function;
     let errorHandler: Function;
 
     beforeEach(async () => {
@@ -305,6 +732,8 @@ describe('PromptCache', () => {
           case 'add': addHandler = handler; break;
           case 'change': changeHandler = handler; break;
           case 'unlink': unlinkHandler = handler; break;
+          case 'addDir': addDirHandler = handler; break;
+          case 'unlinkDir': unlinkDirHandler = handler; break;
           case 'error': errorHandler = handler; break;
         }
         return mockWatcher;
@@ -358,6 +787,124 @@ describe('PromptCache', () => {
       expect(cache.getPrompt('to-delete')).toBeUndefined();
     });
 
+    it('should refresh prompts that include a changed partial', async () => {
+      await createTestPromptFile(tempDir, 'shared', { partial: true }, 'Use {{tone}}');
+      await createTestPromptFile(tempDir, 'main', {}, '{{> shared}}');
+      await cache.initializeCache();
+      expect(cache.getPrompt('main')?.arguments?.map(a => a.name)).toEqual(['tone']);
+      expect(cache.getPrompt('main')?.includes).toEqual(['shared']);
+
+      await createTestPromptFile(tempDir, 'shared', { partial: true }, 'Use {{tone}} and {{audience}}');
+      await changeHandler(`${tempDir}/shared.md`);
+
+      expect(cache.getPrompt('main')?.arguments?.map(a => a.name)).toEqual(['tone', 'audience']);
+    });
+
+    it('should refresh prompts whose missing include is added', async () => {
+      await createTestPromptFile(tempDir, 'main', {}, '{{> later}}');
+      await cache.initializeCache();
+      expect(cache.getPrompt('main')?.arguments).toEqual([]);
+
+      await createTestPromptFile(tempDir, 'later', {}, '{{topic}}');
+      await addHandler(`${tempDir}/later.md`);
+
+      expect(cache.getPrompt('main')?.arguments?.map(a => a.name)).toEqual(['topic']);
+    });
+
+    it('should notify listeners about watcher changes', async () => {
+      const listener = vi.fn();
+      cache.onEvent(listener);
+      await createTestPromptFile(tempDir, 'watched');
+
+      await addHandler(`${tempDir}/watched.md`);
+      await changeHandler(`${tempDir}/watched.md`);
+      await unlinkHandler(`${tempDir}/watched.md`);
+      await addHandler(`${tempDir}/readme.txt`);
+
+      expect(listener.mock.calls.map(([event]) => [event.type, event.name])).toEqual([
+        ['added', 'watched'],
+        ['updated', 'watched'],
+        ['removed', 'watched'],
+      ]);
+    });
+
+    it('should keep the search index in sync with watcher events', async () => {
+      await createTestPromptFile(tempDir, 'searchable', { title: 'Searchable' }, 'Mentions kubernetes');
+      await addHandler(`${tempDir}/searchable.md`);
+      expect(cache.search('kubernetes').map(r => r.name)).toEqual(['searchable']);
+
+      await createTestPromptFile(tempDir, 'searchable', { title: 'Searchable' }, 'Mentions docker');
+      await changeHandler(`${tempDir}/searchable.md`);
+      expect(cache.search('kubernetes')).toEqual([]);
+      expect(cache.search('docker').map(r => r.name)).toEqual(['searchable']);
+
+      await unlinkHandler(`${tempDir}/searchable.md`);
+      expect(cache.search('docker')).toEqual([]);
+    });
+
+    it('should apply a burst of events once', async () => {
+      const listener = vi.fn();
+      cache.onEvent(listener);
+      await createTestPromptFile(tempDir, 'burst', { title: 'Final' });
+
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        const applied = [addHandler(`${tempDir}/burst.md`), changeHandler(`${tempDir}/burst.md`)];
+        await vi.advanceTimersByTimeAsync(WATCH_DEBOUNCE_MS - 1);
+        applied.push(changeHandler(`${tempDir}/burst.md`));
+        await vi.advanceTimersByTimeAsync(WATCH_DEBOUNCE_MS - 1);
+        expect(listener).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        await Promise.all(applied);
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(listener.mock.calls.map(([event]) => [event.type, event.name])).toEqual([['added', 'burst']]);
+      expect(cache.getPrompt('burst')?.metadata.title).toBe('Final');
+    });
+
+    it('should treat an atomic save as an update', async () => {
+      await createTestPromptFile(tempDir, 'atomic', { title: 'Before' });
+      await cache.initializeCache();
+      const listener = vi.fn();
+      cache.onEvent(listener);
+
+      // Editors write a temporary file and rename it over the original
+      await createTestPromptFile(tempDir, 'atomic', { title: 'After' });
+      await Promise.all([unlinkHandler(`${tempDir}/atomic.md`), addHandler(`${tempDir}/atomic.md`)]);
+
+      expect(listener.mock.calls.map(([event]) => [event.type, event.name])).toEqual([['updated', 'atomic']]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Prompt updated: atomic.md');
+      expect(consoleErrorSpy).not.toHaveBeenCalledWith('Prompt deleted: atomic.md');
+      expect(cache.getPrompt('atomic')?.metadata.title).toBe('After');
+    });
+
+    it('should drop the prompts of a deleted folder', async () => {
+      await createTestPromptFile(path.join(tempDir, 'team'), 'review');
+      await createTestPromptFile(path.join(tempDir, 'team', 'nested'), 'style');
+      await createTestPromptFile(tempDir, 'kept');
+      await cache.initializeCache();
+
+      await fs.rm(path.join(tempDir, 'team'), { recursive: true });
+      await unlinkDirHandler(path.join(tempDir, 'team'));
+
+      expect(cache.getAllPrompts().map(p => p.name)).toEqual(['kept']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Prompt folder deleted: team');
+    });
+
+    it('should move the prompts of a renamed folder', async () => {
+      await createTestPromptFile(path.join(tempDir, 'old'), 'review', {}, 'Mentions kubernetes');
+      await cache.initializeCache();
+
+      await fs.rename(path.join(tempDir, 'old'), path.join(tempDir, 'new'));
+      await Promise.all([unlinkDirHandler(path.join(tempDir, 'old')), addDirHandler(path.join(tempDir, 'new'))]);
+
+      expect(cache.getAllPrompts().map(p => p.name)).toEqual(['new/review']);
+      expect(cache.search('kubernetes').map(r => r.name)).toEqual(['new/review']);
+    });
+
     it('should handle watcher errors', () => {
       const error = new Error('Watcher error');
       
@@ -0,0 +1,134 @@
+/**
+ * Tests for the command line interface
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { runCli, EXIT_FAILURE, EXIT_OK, EXIT_USAGE } from '../src/cli.js';
+import { createTempDir, cleanupTempDir, createTestPromptFile } from './helpers/testUtils.js';
+
+describe('CLI', () => {
+  let tempDir: string;
+  let stdout: string[];
+  let stderr: string[];
+
+  /**
+   * Run the CLI against the temp prompts directory and capture its output
+   */
+  async function run(...argv: string[]): Promise<number> {
+    return await runCli(argv, tempDir, {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+    });
+  }
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    stdout = [];
+    stderr = [];
+    await createTestPromptFile(tempDir, 'security-review', { title: 'Security Review', tags: ['security', 'review'], category: 'development' }, 'Review {{code}} for {{focus|default:"injection"}}');
+    await createTestPromptFile(`${tempDir}/team`, 'writing', { title: 'Writing', tags: ['docs'] }, 'Write docs');
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('list', () => {
+    it('should list prompts as aligned text', async () => {
+      expect(await run('list')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['security-review  Security Review', 'team/writing     Writing']);
+    });
+
+    it('should filter by tag and print JSON', async () => {
+      expect(await run('list', '--json', '--tag', 'security')).toBe(EXIT_OK);
+      expect(JSON.parse(stdout.join('\n'))).toEqual([
+        { name: 'security-review', title: 'Security Review', tags: ['security', 'review'], category: 'development' }
+      ]);
+    });
+
+    it('should take the prompts directory as a positional argument', async () => {
+      const otherDir = path.join(tempDir, 'team');
+
+      expect(await run('list', otherDir)).toBe(EXIT_OK);
+      expect(stdout).toEqual(['writing  Writing']);
+    });
+  });
+
+  describe('show and render', () => {
+    it('should print the raw markdown', async () => {
+      expect(await run('show', 'team/writing')).toBe(EXIT_OK);
+      expect(stdout.join('\n')).toContain('title: "Writing"');
+    });
+
+    it('should render prompts with --arg values', async () => {
+      expect(await run('render', 'security-review', '--arg', 'code=eval(x)', '--arg', 'focus=a=b')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['Review eval(x) for a=b']);
+    });
+
+    it('should fail when rendering unknown prompts', async () => {
+      expect(await run('render', 'missing')).toBe(EXIT_FAILURE);
+      expect(stderr[0]).toContain('Prompt "missing" not found');
+    });
+  });
+
+  describe('validate and lint', () => {
+    beforeEach(async () => {
+      await createTestPromptFile(tempDir, 'typo', { difficulty: 'expert' as 'advanced' }, 'Uses {{> missing}}');
+    });
+
+    it('should print file:line diagnostics and exit non-zero', async () => {
+      expect(await run('lint')).toBe(EXIT_FAILURE);
+      const file = path.relative(process.cwd(), path.join(tempDir, 'typo.md'));
+      expect(stdout).toEqual([
+        `${file}:2: difficulty must be one of: beginner, intermediate, advanced (schema)`,
+        `${file}:5: Included prompt "missing" not found (included from "typo") (template)`,
+        '2 problem(s) in 1 of 3 prompt(s)'
+      ]);
+    });
+
+    it('should print the file path of prompts from a namespaced source', async () => {
+      const sharedDir = path.join(tempDir, 'shared');
+      await createTestPromptFile(sharedDir, 'style', { difficulty: 'expert' as 'advanced' });
+
+      const exitCode = await runCli(['validate'], [{ path: path.join(tempDir, 'team') }, { path: sharedDir, namespace: 'acme' }], {
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+      });
+
+      expect(exitCode).toBe(EXIT_FAILURE);
+      expect(stdout[0]).toBe(`${path.relative(process.cwd(), path.join(sharedDir, 'style.md'))}:2: difficulty must be one of: beginner, intermediate, advanced (schema)`);
+    });
+
+    it('should only check frontmatter when validating', async () => {
+      expect(await run('validate', '--json')).toBe(EXIT_FAILURE);
+      const report = JSON.parse(stdout.join('\n'));
+
+      expect(report).toMatchObject({ ok: false, promptCount: 3, problemCount: 1 });
+      expect(report.prompts[0].diagnostics[0].field).toBe('difficulty');
+    });
+
+    it('should succeed for a clean library', async () => {
+      await fs.rm(path.join(tempDir, 'typo.md'));
+
+      expect(await run('lint')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['No problems found in 2 prompt(s)']);
+    });
+  });
+
+  describe('usage errors', () => {
+    it('should reject unknown commands, options and missing directories', async () => {
+      expect(await run('publish')).toBe(EXIT_USAGE);
+      expect(await run('list', '--colour')).toBe(EXIT_USAGE);
+      expect(await run('render')).toBe(EXIT_USAGE);
+      expect(await run('lint', path.join(tempDir, 'nope'))).toBe(EXIT_FAILURE);
+      expect(stderr[3]).toContain('Prompts directory not found');
+    });
+
+    it('should print help', async () => {
+      expect(await run('--help')).toBe(EXIT_OK);
+      expect(stdout[0]).toContain('Usage: prompts-mcp-server [command] [options]');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for configuration loading and reloading
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConfigManager, extractConfigArg, loadConfig, LoadConfigOptions } from '../src/config.js';
+import { createTempDir, cleanupTempDir, mockConsoleError } from './helpers/testUtils.js';
+
+describe('Configuration', () => {
+  let tempDir: string;
+  let options: LoadConfigOptions;
+
+  async function writeConfig(content: string, fileName = 'prompts-mcp.config.yaml'): Promise<string> {
+    const filePath = path.join(tempDir, fileName);
+    await fs.writeFile(filePath, content, 'utf-8');
+    return filePath;
+  }
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    options = { defaultPromptsDir: '/default/prompts', env: {}, searchDirs: [tempDir] };
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir(tempDir);
+  });
+
+  describe('loadConfig', () => {
+    it('should use defaults without a config file', async () => {
+      const { config, filePath } = await loadConfig(options);
+
+      expect(filePath).toBeUndefined();
+      expect(config).toEqual({
+        promptsDir: '/default/prompts',
+        sources: [{ path: '/default/prompts' }],
+        cacheDir: path.join(os.homedir(), '.cache', 'prompts-mcp-server'),
+        transport: 'stdio',
+        http: { host: '127.0.0.1', port: 3000 },
+        github: { ref: 'main', frozen: false },
+      });
+    });
+
+    it('should discover a YAML config and resolve paths relative to it', async () => {
+      const filePath = await writeConfig([
+        'promptsDir: ./team-prompts',
+        'transport: http',
+        'http:',
+        '  port: 8080',
+        '  allowedHosts: [prompts.internal]',
+        'github:',
+        '  repoUrl: acme/prompts',
+        '  ref: v2',
+      ].join('\n'));
+
+      const loaded = await loadConfig(options);
+
+      expect(loaded.filePath).toBe(filePath);
+      expect(loaded.config).toEqual({
+        promptsDir: path.join(tempDir, 'team-prompts'),
+        sources: [{ path: path.join(tempDir, 'team-prompts') }],
+        cacheDir: path.join(os.homedir(), '.cache', 'prompts-mcp-server'),
+        transport: 'http',
+        http: { host: '127.0.0.1', port: 8080, allowedHosts: ['prompts.internal'] },
+        github: { repoUrl: 'acme/prompts', ref: 'v2', frozen: false },
+      });
+    });
+
+    it('should apply environment variables over the file and overrides over both', async () => {
+      const configPath = await writeConfig(JSON.stringify({ promptsDir: '/file', github: { repoUrl: 'acme/file', frozen: true } }), 'custom.json');
+
+      const { config } = await loadConfig({
+        ...options,
+        configPath,
+        env: { PROMPTS_FOLDER_PATH: '/env', GITHUB_REPO_URL: 'acme/env', MCP_HTTP_PORT: '0' },
+        overrides: { promptsDir: '/cli', frozen: false },
+      });
+
+      expect(config.promptsDir).toBe('/cli');
+      expect(config.github).toEqual({ repoUrl: 'acme/env', ref: 'main', frozen: false });
+      expect(config.http.port).toBe(0);
+    });
+
+    it('should list every problem in an invalid file', async () => {
+      const filePath = await writeConfig('transport: grpc\nhttp:\n  port: 70000\npromptDir: ./typo\n');
+
+      await expect(loadConfig(options)).rejects.toThrow([
+        `Invalid configuration in ${filePath}:`,
+        '  promptDir is not a known setting',
+        '  transport must be one of: stdio, http',
+        '  http.port must be <= 65535',
+      ].join('\n'));
+    });
+
+    it('should reject invalid environment values and missing files', async () => {
+      await expect(loadConfig({ ...options, env: { MCP_TRANSPORT: 'tcp', MCP_HTTP_PORT: 'abc' } })).rejects.toThrow(
+        'Invalid configuration:\n  MCP_TRANSPORT must be one of: stdio, http (got "tcp")\n  MCP_HTTP_PORT must be a port number (got "abc")'
+      );
+      await expect(loadConfig({ ...options, configPath: path.join(tempDir, 'missing.yaml') })).rejects.toThrow('Configuration file not found');
+      await writeConfig('http: [', 'broken.yaml');
+      await expect(loadConfig({ ...options, configPath: path.join(tempDir, 'broken.yaml') })).rejects.toThrow('Invalid configuration in');
+    });
+
+    it('should add extra prompt sources after the prompts directory', async () => {
+      await writeConfig([
+        'promptsDir: ./personal',
+        'sources:',
+        '  - path: ./team',
+        '    namespace: team',
+        '  - path: /srv/company',
+        '    priority: 10',
+      ].join('\n'));
+
+      const { config } = await loadConfig(options);
+
+      expect(config.sources).toEqual([
+        { path: path.join(tempDir, 'personal') },
+        { path: path.join(tempDir, 'team'), namespace: 'team' },
+        { path: '/srv/company', priority: 10 },
+      ]);
+    });
+
+    it('should read the list of repositories to sync', async () => {
+      await writeConfig([
+        'github:',
+        '  ref: main',
+        '  repositories:',
+        '    - url: acme/prompts',
+        '      name: team',
+        '    - url: acme/company-prompts',
+        '      ref: v3',
+        '      subdirectory: library',
+      ].join('\n'));
+
+      const { config } = await loadConfig(options);
+
+      expect(config.github).toEqual({
+        ref: 'main',
+        frozen: false,
+        repositories: [
+          { url: 'acme/prompts', name: 'team' },
+          { url: 'acme/company-prompts', ref: 'v3', subdirectory: 'library' },
+        ],
+      });
+      await writeConfig('github:\n  repositories:\n    - name: team\n');
+      await expect(loadConfig(options)).rejects.toThrow('github.repositories[0] must have required property \'url\'');
+    });
+
+    it('should read the sync interval from the file or GITHUB_SYNC_INTERVAL', async () => {
+      await writeConfig('github:\n  syncInterval: 600\n');
+
+      expect((await loadConfig(options)).config.github.syncInterval).toBe(600);
+      expect((await loadConfig({ ...options, env: { GITHUB_SYNC_INTERVAL: '0' } })).config.github.syncInterval).toBe(0);
+      await expect(loadConfig({ ...options, env: { GITHUB_SYNC_INTERVAL: '5m' } })).rejects.toThrow(
+        'GITHUB_SYNC_INTERVAL must be a number of seconds (got "5m")'
+      );
+    });
+
+    it('should read the pull strategy from the file or GITHUB_PULL_STRATEGY', async () => {
+      await writeConfig('github:\n  pullStrategy: stash\n  repositories:\n    - url: acme/team\n      pullStrategy: reset\n');
+
+      const { config } = await loadConfig(options);
+      expect(config.github.pullStrategy).toBe('stash');
+      expect(config.github.repositories?.[0]?.pullStrategy).toBe('reset');
+      expect((await loadConfig({ ...options, env: { GITHUB_PULL_STRATEGY: 'overlay' } })).config.github.pullStrategy).toBe('overlay');
+      await expect(loadConfig({ ...options, env: { GITHUB_PULL_STRATEGY: 'merge' } })).rejects.toThrow(
+        'GITHUB_PULL_STRATEGY must be one of: fail, stash, overlay, reset (got "merge")'
+      );
+    });
+
+    it('should keep the prompt index under XDG_CACHE_HOME or the configured cacheDir', async () => {
+      expect((await loadConfig({ ...options, env: { XDG_CACHE_HOME: '/xdg' } })).config.cacheDir).toBe('/xdg/prompts-mcp-server');
+
+      await writeConfig('cacheDir: ./cache\n');
+      expect((await loadConfig({ ...options, env: { XDG_CACHE_HOME: '/xdg' } })).config.cacheDir).toBe(path.join(tempDir, 'cache'));
+    });
+
+    it('should read the HTTP auth token from the file or MCP_HTTP_AUTH_TOKEN', async () => {
+      await writeConfig('http:\n  authToken: from-file\n');
+
+      expect((await loadConfig(options)).config.http.authToken).toBe('from-file');
+      expect((await loadConfig({ ...options, env: { MCP_HTTP_AUTH_TOKEN: 'from-env' } })).config.http.authToken).toBe('from-env');
+    });
+
+    it('should reject invalid sources', async () => {
+      await writeConfig('sources:\n  - namespace: Team Prompts\n');
+
+      await expect(loadConfig(options)).rejects.toThrow(
+        'sources[0] must have required property \'path\'\n  sources[0].namespace must be lowercase letters, digits, "_" and "-", separated by "/"'
+      );
+    });
+  });
+
+  describe('extractConfigArg', () => {
+    it('should remove --config from the arguments', () => {
+      expect(extractConfigArg(['serve', '--config', 'a.yaml', './prompts'])).toEqual({ configPath: 'a.yaml', args: ['serve', './prompts'] });
+      expect(extractConfigArg(['lint', '--config=b.json'])).toEqual({ configPath: 'b.json', args: ['lint'] });
+      expect(extractConfigArg(['list'])).toEqual({ args: ['list'] });
+    });
+  });
+
+  describe('ConfigManager', () => {
+    let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+    beforeEach(() => {
+      consoleErrorSpy = mockConsoleError();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should apply live settings on reload and keep restart-only ones', async () => {
+      await writeConfig('http:\n  port: 4000\n  allowedHosts: [a.internal]\n');
+      const manager = new ConfigManager(await loadConfig(options), options);
+      const listener = vi.fn();
+      manager.onChange(listener);
+
+      await writeConfig('http:\n  port: 5000\n  allowedHosts: [b.internal]\n  authToken: secret\ngithub:\n  ref: release\n');
+      await manager.reload();
+
+      expect(manager.get().http).toEqual({ host: '127.0.0.1', port: 4000, allowedHosts: ['b.internal'] });
+      expect(manager.get().github.ref).toBe('release');
+      expect(listener).toHaveBeenCalledWith(manager.get());
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Restart the server to apply changes to: http.port, http.authToken');
+    });
+
+    it('should keep the current configuration when the file becomes invalid', async () => {
+      await writeConfig('github:\n  ref: main\n');
+      const manager = new ConfigManager(await loadConfig(options), options);
+      const listener = vi.fn();
+      manager.onChange(listener);
+
+      await writeConfig('github:\n  ref: 42\n');
+      await manager.reload();
+
+      expect(manager.get().github.ref).toBe('main');
+      expect(listener).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('github.ref must be string'));
+    });
+  });
+});
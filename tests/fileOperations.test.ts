@@ -2,6 +2,8 @@
  * Tests for PromptFileOperations class
  */
 
+import fs from 'fs/promises';
+import path from 'path';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PromptFileOperations } from '../src/fileOperations.js';
 import { createTempDir, cleanupTempDir, createTestPromptFile, createSamplePromptInfo } from './helpers/testUtils.js';
@@ -264,6 +266,42 @@ describe('PromptFileOperations', () => {
     });
   });
 
+  describe('multiple sources', () => {
+    let personalDir: string;
+    let teamDir: string;
+
+    beforeEach(() => {
+      personalDir = path.join(tempDir, 'personal');
+      teamDir = path.join(tempDir, 'team');
+      fileOps = new PromptFileOperations([{ path: personalDir }, { path: teamDir, namespace: 'team' }], mockCache as any);
+    });
+
+    it('should read namespaced prompts from their source', async () => {
+      await createTestPromptFile(teamDir, 'review', {}, 'Team review');
+
+      expect(await fileOps.readPrompt('team/review')).toBe('Team review');
+      await expect(fileOps.readPrompt('review')).rejects.toThrow('Prompt "review" not found');
+    });
+
+    it('should create prompts in the source matching their namespace', async () => {
+      await fileOps.savePrompt('team/checklist', 'Team checklist');
+      await fileOps.savePrompt('draft', 'Personal draft');
+
+      expect(await fs.readFile(path.join(teamDir, 'checklist.md'), 'utf-8')).toBe('Team checklist');
+      expect(await fs.readFile(path.join(personalDir, 'draft.md'), 'utf-8')).toBe('Personal draft');
+    });
+
+    it('should overwrite an existing prompt in the source it is served from', async () => {
+      fileOps = new PromptFileOperations([{ path: personalDir }, { path: teamDir, priority: 1 }], mockCache as any);
+      await createTestPromptFile(teamDir, 'style', {}, 'Team style');
+
+      await fileOps.savePrompt('style', 'Updated style');
+
+      expect(await fs.readFile(path.join(teamDir, 'style.md'), 'utf-8')).toBe('Updated style');
+      await expect(fs.access(path.join(personalDir, 'style.md'))).rejects.toThrow();
+    });
+  });
+
   describe('integration with cache', () => {
     it('should work correctly when cache is populated', async () => {
       const samplePrompts = [
@@ -301,5 +339,20 @@ describe('PromptFileOperations', () => {
       
       await realCache.cleanup();
     });
+
+    it('should resolve the cache\'s includes through readPrompt', async () => {
+      await createTestPromptFile(tempDir, 'review', {}, '{{> shared}}');
+      await createTestPromptFile(tempDir, 'shared', { partial: true }, 'Use {{tone}}');
+      const realCache = new (await import('../src/cache.js')).PromptCache(tempDir);
+      const realFileOps = new PromptFileOperations(tempDir, realCache);
+      const readSpy = vi.spyOn(realFileOps, 'readPrompt');
+
+      const prompts = await realFileOps.listPrompts();
+
+      expect(readSpy).toHaveBeenCalledWith('shared');
+      expect(prompts.find(p => p.name === 'review')?.arguments?.map(a => a.name)).toEqual(['tone']);
+
+      await realCache.cleanup();
+    });
   });
 });
\ No newline at end of file
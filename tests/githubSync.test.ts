@@ -0,0 +1,263 @@
+/**
+ * Tests for repository sync, using local bare repositories instead of GitHub
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GitHubSync, LOCK_FILE } from '../src/githubSync.js';
+import { PromptCache } from '../src/cache.js';
+import { GitHubSyncConfig } from '../src/types.js';
+import { createTempDir, cleanupTempDir, mockConsoleError } from './helpers/testUtils.js';
+
+const execFileAsync = promisify(execFile);
+
+describe('GitHubSync', () => {
+  let tempDir: string;
+  let workDir: string;
+  let bareRepo: string;
+  let promptsDir: string;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  function createSync(options: Partial<GitHubSyncConfig> = {}): GitHubSync {
+    return new GitHubSync(promptsDir, { repoUrl: bareRepo, ref: 'main', frozen: false, ...options });
+  }
+
+  async function git(cwd: string, ...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+    return stdout.trim();
+  }
+
+  /**
+   * Commit a prompt to the upstream repository and return the commit SHA
+   */
+  async function commitPrompt(content: string): Promise<string> {
+    await fs.writeFile(path.join(workDir, 'shared.md'), content, 'utf-8');
+    await git(workDir, 'add', '.');
+    await git(workDir, 'commit', '-q', '-m', content);
+    await git(workDir, 'push', '-q', 'origin', 'main');
+    return await git(workDir, 'rev-parse', 'HEAD');
+  }
+
+  /**
+   * Create another upstream repository with the given files on a branch
+   */
+  async function createUpstream(dir: string, files: Record<string, string>, branch = 'main'): Promise<string> {
+    const upstream = path.join(tempDir, dir, 'prompts.git');
+    const checkout = path.join(tempDir, dir, 'work');
+    await fs.mkdir(path.dirname(upstream), { recursive: true });
+    await git(tempDir, 'init', '-q', '--bare', '-b', branch, upstream);
+    await git(tempDir, 'clone', '-q', upstream, checkout);
+    await git(checkout, 'checkout', '-q', '-b', branch);
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(checkout, name)), { recursive: true });
+      await fs.writeFile(path.join(checkout, name), content, 'utf-8');
+    }
+    await git(checkout, 'add', '.');
+    await git(checkout, 'commit', '-q', '-m', 'prompts');
+    await git(checkout, 'push', '-q', 'origin', branch);
+    return upstream;
+  }
+
+  async function readSyncedPrompt(): Promise<string> {
+    return await fs.readFile(path.join(promptsDir, 'team-prompts', 'shared.md'), 'utf-8');
+  }
+
+  async function readLockFile(): Promise<{ repositories: Record<string, { url: string; ref: string; commit: string }> }> {
+    return JSON.parse(await fs.readFile(path.join(promptsDir, LOCK_FILE), 'utf-8'));
+  }
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+    workDir = path.join(tempDir, 'work');
+    bareRepo = path.join(tempDir, 'team-prompts.git');
+    promptsDir = path.join(tempDir, 'prompts');
+
+    await git(tempDir, 'init', '-q', '--bare', '-b', 'main', bareRepo);
+    await git(tempDir, 'clone', '-q', bareRepo, workDir);
+    await git(workDir, 'checkout', '-q', '-b', 'main');
+  });
+
+  afterEach(async () => {
+    consoleErrorSpy.mockRestore();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should check out the head of the ref and record its commit', async () => {
+    const commit = await commitPrompt('v1');
+
+    await createSync().syncFromGitHub();
+
+    expect(await readSyncedPrompt()).toBe('v1');
+    expect((await readLockFile()).repositories['team-prompts']).toEqual({ url: bareRepo, ref: 'main', commit });
+  });
+
+  it('should move to the new head and update the lock when not frozen', async () => {
+    await commitPrompt('v1');
+    await createSync().syncFromGitHub();
+    const commit = await commitPrompt('v2');
+
+    await createSync().syncFromGitHub();
+
+    expect(await readSyncedPrompt()).toBe('v2');
+    expect((await readLockFile()).repositories['team-prompts']?.commit).toBe(commit);
+  });
+
+  it('should report the previous commit and the changed files', async () => {
+    const first = await commitPrompt('v1');
+    const [cloned] = await createSync().syncFromGitHub();
+    const second = await commitPrompt('v2');
+
+    const [updated] = await createSync().syncFromGitHub();
+    const [unchanged] = await createSync().syncFromGitHub();
+
+    expect(cloned).toEqual({ name: 'team-prompts', url: bareRepo, ref: 'main', status: 'synced', commit: first });
+    expect(updated).toMatchObject({ commit: second, previousCommit: first, changedFiles: ['team-prompts/shared.md'] });
+    expect(unchanged).toMatchObject({ commit: second, previousCommit: second, changedFiles: [] });
+  });
+
+  it('should stay on the locked commit when frozen', async () => {
+    const locked = await commitPrompt('v1');
+    await createSync().syncFromGitHub();
+    await commitPrompt('v2');
+
+    await createSync({ frozen: true }).syncFromGitHub();
+
+    expect(await readSyncedPrompt()).toBe('v1');
+    expect((await readLockFile()).repositories['team-prompts']?.commit).toBe(locked);
+  });
+
+  it('should reproduce the locked commit in a fresh clone', async () => {
+    await commitPrompt('v1');
+    await createSync().syncFromGitHub();
+    await commitPrompt('v2');
+    await fs.rm(path.join(promptsDir, 'team-prompts'), { recursive: true });
+
+    await createSync({ frozen: true }).syncFromGitHub();
+
+    expect(await readSyncedPrompt()).toBe('v1');
+  });
+
+  it('should fail a frozen sync without a matching lock entry', async () => {
+    await commitPrompt('v1');
+
+    await expect(createSync({ frozen: true }).syncFromGitHub()).rejects.toThrow('prompts.lock has no entry for team-prompts');
+
+    await createSync().syncFromGitHub();
+    await expect(createSync({ ref: 'release', frozen: true }).syncFromGitHub()).rejects.toThrow('but ' + bareRepo + '#release is configured');
+  });
+
+  it('should reject refs that could be read as options or shell syntax', async () => {
+    await commitPrompt('v1');
+    const marker = path.join(tempDir, 'injected');
+
+    for (const ref of ['--upload-pack=touch injected', `main; touch ${marker}`]) {
+      await createSync({ ref }).syncFromGitHub();
+    }
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid ref'));
+    await expect(fs.access(marker)).rejects.toThrow();
+    await expect(fs.access(path.join(promptsDir, LOCK_FILE))).rejects.toThrow();
+  });
+
+  it('should sync several repositories into their own folders with their own refs', async () => {
+    await commitPrompt('v1');
+    const teamRepo = await createUpstream('team', { 'review.md': 'team' });
+    const companyRepo = await createUpstream('company', { 'style.md': 'company' }, 'release');
+
+    const results = await createSync({
+      repositories: [
+        { url: teamRepo, name: 'team' },
+        { url: companyRepo, name: 'company', ref: 'release' },
+      ],
+    }).syncFromGitHub();
+
+    expect(results.map(({ name, ref, status }) => ({ name, ref, status }))).toEqual([
+      { name: 'team-prompts', ref: 'main', status: 'synced' },
+      { name: 'team', ref: 'main', status: 'synced' },
+      { name: 'company', ref: 'release', status: 'synced' },
+    ]);
+    expect(await fs.readFile(path.join(promptsDir, 'team', 'review.md'), 'utf-8')).toBe('team');
+    expect(await fs.readFile(path.join(promptsDir, 'company', 'style.md'), 'utf-8')).toBe('company');
+    expect(Object.keys((await readLockFile()).repositories)).toEqual(['company', 'team', 'team-prompts']);
+  });
+
+  it('should report each repository and refuse two repositories in one folder', async () => {
+    const teamRepo = await createUpstream('team', { 'review.md': 'team' });
+    const companyRepo = await createUpstream('company', { 'style.md': 'company' });
+
+    const results = await createSync({
+      repoUrl: path.join(tempDir, 'missing.git'),
+      repositories: [{ url: teamRepo }, { url: companyRepo }, { url: companyRepo, name: 'company' }],
+    }).syncFromGitHub();
+
+    expect(results.map(({ name, status }) => ({ name, status }))).toEqual([
+      { name: 'missing', status: 'failed' },
+      { name: 'prompts', status: 'failed' },
+      { name: 'prompts', status: 'failed' },
+      { name: 'company', status: 'synced' },
+    ]);
+    expect(results[1]?.error).toContain('Folder prompts is used by more than one repository');
+    expect(consoleErrorSpy).toHaveBeenCalledWith('GitHub sync finished: 1 synced, 0 skipped, 3 failed');
+    expect(Object.keys((await readLockFile()).repositories)).toEqual(['company']);
+  });
+
+  it('should check out only the configured subdirectory', async () => {
+    const upstream = await createUpstream('team', { 'README.md': 'readme', 'prompts/review.md': 'review' });
+    const repoDir = path.join(promptsDir, 'team');
+
+    await createSync({ repoUrl: '', repositories: [{ url: upstream, name: 'team', subdirectory: 'prompts' }] }).syncFromGitHub();
+
+    expect(await fs.readFile(path.join(repoDir, 'prompts', 'review.md'), 'utf-8')).toBe('review');
+    await expect(fs.access(path.join(repoDir, 'README.md'))).rejects.toThrow();
+
+    await createSync({ repoUrl: '', repositories: [{ url: upstream, name: 'team' }] }).syncFromGitHub();
+    expect(await fs.readFile(path.join(repoDir, 'README.md'), 'utf-8')).toBe('readme');
+
+    const [result] = await createSync({ repoUrl: '', repositories: [{ url: upstream, name: 'team', subdirectory: '../outside' }] }).syncFromGitHub();
+    expect(result?.error).toBe('Invalid subdirectory: ../outside');
+  });
+
+  it('should serve a synced subdirectory as the repository prompt root', async () => {
+    const upstream = await createUpstream('team', { 'prompts/review.md': '---\ntitle: Review\n---\n\nreview' });
+    const sync = createSync({ repoUrl: '', repositories: [{ url: upstream, name: 'team', subdirectory: 'prompts' }] });
+    await sync.syncFromGitHub();
+    await fs.writeFile(path.join(promptsDir, 'local.md'), 'local', 'utf-8');
+
+    const sources = sync.getPromptSources([{ path: promptsDir }]);
+    expect(sources).toEqual([
+      { path: promptsDir, exclude: ['team'] },
+      { path: path.join(promptsDir, 'team', 'prompts'), namespace: 'team' },
+    ]);
+
+    const cache = new PromptCache(sources);
+    await cache.initializeCache();
+    expect(cache.getAllPrompts().map((prompt) => prompt.name).sort()).toEqual(['local', 'team/review']);
+    await cache.cleanup();
+  });
+
+  it('should report locally edited files that conflict with the update', async () => {
+    await commitPrompt('v1');
+    await createSync().syncFromGitHub();
+    await commitPrompt('v2');
+    await fs.writeFile(path.join(promptsDir, 'team-prompts', 'shared.md'), 'local', 'utf-8');
+
+    const [failed] = await createSync().syncFromGitHub();
+    const [overlaid] = await createSync({ pullStrategy: 'overlay' }).syncFromGitHub();
+
+    expect(failed).toMatchObject({ status: 'failed', conflicts: [{ file: 'team-prompts/shared.md', resolution: 'unresolved' }] });
+    expect(failed?.error).toContain('Local changes in');
+    expect(overlaid).toMatchObject({ status: 'synced', conflicts: [{ file: 'team-prompts/shared.md', resolution: 'local' }] });
+    expect(await readSyncedPrompt()).toBe('local');
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Warning: team-prompts kept local edits of team-prompts/shared.md over upstream changes');
+  });
+
+  it('should log and continue when the repository cannot be synced', async () => {
+    await createSync({ repoUrl: path.join(tempDir, 'missing.git') }).syncFromGitHub();
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Error syncing from GitHub: Failed to clone repository'));
+  });
+});
@@ -15,9 +15,17 @@ export class MockPromptCache {
   getPrompt = vi.fn((name: string) => this.cache.get(name));
   isEmpty = vi.fn(() => this.cache.size === 0);
   size = vi.fn(() => this.cache.size);
+  search = vi.fn(() => []);
+  query = vi.fn(() => []);
+  getFacets = vi.fn();
+  getDiagnostics = vi.fn(() => ({ prompts: [] }));
+  refreshFile = vi.fn();
+  removeFile = vi.fn();
   initializeCache = vi.fn();
   initializeFileWatcher = vi.fn();
   cleanup = vi.fn();
+  setPromptReader = vi.fn();
+  isLoading = vi.fn(() => false);
 
   // Helper methods for testing
   _setPrompt(name: string, prompt: PromptInfo) {
@@ -34,11 +42,19 @@ export class MockPromptCache {
  */
 export class MockPromptFileOperations {
   listPrompts = vi.fn();
+  searchPrompts = vi.fn();
+  queryPrompts = vi.fn();
+  getPromptFacets = vi.fn();
+  getDiagnostics = vi.fn();
   readPrompt = vi.fn();
   savePrompt = vi.fn();
   savePromptWithFilename = vi.fn();
   deletePrompt = vi.fn();
   promptExists = vi.fn();
+  readPromptSource = vi.fn();
+  createPrompt = vi.fn();
+  updatePrompt = vi.fn();
+  renamePrompt = vi.fn();
   getPromptInfo = vi.fn();
 }
 
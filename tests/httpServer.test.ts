@@ -0,0 +1,203 @@
+/**
+ * Tests for the HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { PromptCache } from '../src/cache.js';
+import { PromptFileOperations } from '../src/fileOperations.js';
+import { PromptsHttpServer } from '../src/httpServer.js';
+import { createPromptServer } from '../src/server.js';
+import { createTempDir, cleanupTempDir, createTestPromptFile, mockConsoleError, wait } from './helpers/testUtils.js';
+
+describe('PromptsHttpServer', () => {
+  let tempDir: string;
+  let cache: PromptCache;
+  let httpServer: PromptsHttpServer;
+  let baseUrl: string;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+    await createTestPromptFile(tempDir, 'review', { title: 'Review' }, 'Review {{code}}');
+
+    cache = new PromptCache(tempDir);
+    await cache.initializeCache();
+    const fileOps = new PromptFileOperations(tempDir, cache);
+    const config = { name: 'prompts-mcp-server', version: '1.0.0', promptsDir: tempDir };
+
+    httpServer = new PromptsHttpServer({ host: '127.0.0.1', port: 0 }, () => createPromptServer(config, cache, fileOps));
+    const port = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+    await cache.cleanup();
+    consoleErrorSpy.mockRestore();
+    await cleanupTempDir(tempDir);
+  });
+
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    return client;
+  }
+
+  it('should serve concurrent Streamable HTTP sessions from one cache', async () => {
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    expect(httpServer.getSessionCount()).toBe(2);
+    expect((await first.listPrompts()).prompts.map((prompt) => prompt.name)).toEqual(['review']);
+
+    const result = await second.getPrompt({ name: 'review', arguments: { code: 'x = 1' } });
+    expect(result.messages[0]?.content).toMatchObject({ text: expect.stringContaining('Review x = 1') });
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should fall back to SSE', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    expect(httpServer.getSessionCount()).toBe(1);
+    expect((await client.listPrompts()).prompts).toHaveLength(1);
+
+    await client.close();
+  });
+
+  it('should notify every session when prompts change', async () => {
+    const clients = [
+      await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`))),
+      await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`))),
+    ];
+    const notified: number[] = [];
+    clients.forEach((client, index) => {
+      client.fallbackNotificationHandler = async (notification) => {
+        if (notification.method === 'notifications/prompts/list_changed') notified.push(index);
+      };
+    });
+    // Streamable HTTP clients receive notifications on the GET stream, give it time to open
+    await wait(100);
+
+    await cache.refreshFile(await createTestPromptFile(tempDir, 'added', { title: 'Added' }, 'Added'));
+    for (let attempt = 0; attempt < 20 && notified.length < 2; attempt++) {
+      await wait(50);
+    }
+
+    expect(notified.sort()).toEqual([0, 1]);
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  it('should reject requests without a session and unknown sessions', async () => {
+    const noSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(noSession.status).toBe(400);
+
+    const unknownSession = await fetch(`${baseUrl}/mcp`, { headers: { 'mcp-session-id': 'missing' } });
+    expect(unknownSession.status).toBe(404);
+
+    const invalidJson = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{' });
+    expect(await invalidJson.json()).toMatchObject({ error: { code: -32700 } });
+
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+
+  it('should dispose the session of a rejected initialize request', async () => {
+    const disposed: boolean[] = [];
+    await httpServer.close();
+    const fileOps = new PromptFileOperations(tempDir, cache);
+    const config = { name: 'prompts-mcp-server', version: '1.0.0', promptsDir: tempDir };
+    httpServer = new PromptsHttpServer({ host: '127.0.0.1', port: 0 }, () => {
+      const session = createPromptServer(config, cache, fileOps);
+      disposed.push(false);
+      const index = disposed.length - 1;
+      return { ...session, dispose: () => { disposed[index] = true; session.dispose(); } };
+    });
+    baseUrl = `http://127.0.0.1:${await httpServer.start()}`;
+
+    // Without text/event-stream in Accept the transport rejects the request before starting a session
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    });
+
+    expect(response.status).toBe(406);
+    expect(httpServer.getSessionCount()).toBe(0);
+    expect(disposed).toEqual([true]);
+  });
+
+  it('should reject foreign Host headers when bound to loopback', async () => {
+    const http = await import('http');
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http.get(`${baseUrl}/mcp`, { headers: { host: 'evil.example:80' } }, (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject);
+    });
+
+    expect(status).toBe(403);
+  });
+
+  it('should reject requests from pages of other sites', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { headers: { Origin: 'https://evil.example' } });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { message: 'Origin "https://evil.example" is not allowed' } });
+
+    const sameSite = await fetch(`${baseUrl}/mcp`, { headers: { Origin: 'http://localhost:5173', 'mcp-session-id': 'missing' } });
+    expect(sameSite.status).toBe(404);
+  });
+
+  it('should refuse to serve beyond loopback without an auth token', async () => {
+    const server = new PromptsHttpServer({ host: '0.0.0.0', port: 0 }, () => {
+      throw new Error('No session expected');
+    });
+
+    await expect(server.start()).rejects.toThrow('set MCP_HTTP_AUTH_TOKEN to serve on 0.0.0.0');
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    await httpServer.close();
+    const fileOps = new PromptFileOperations(tempDir, cache);
+    const config = { name: 'prompts-mcp-server', version: '1.0.0', promptsDir: tempDir };
+    httpServer = new PromptsHttpServer(
+      { host: '127.0.0.1', port: 0, authToken: 'secret' },
+      () => createPromptServer(config, cache, fileOps)
+    );
+    const url = new URL(`http://127.0.0.1:${await httpServer.start()}/mcp`);
+
+    const anonymous = await fetch(url);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+    expect((await fetch(url, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+
+    const client = await connect(new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: 'Bearer secret' } } }));
+    expect((await client.listPrompts()).prompts).toHaveLength(1);
+    await client.close();
+  });
+
+  it('should close all sessions on shutdown', async () => {
+    const client = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const sseClient = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    await httpServer.close();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+    await expect(client.listPrompts()).rejects.toThrow();
+    await sseClient.close();
+    await client.close();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for DebouncedNotifier class
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DebouncedNotifier } from '../src/notifications.js';
+import { mockConsoleError } from './helpers/testUtils.js';
+
+describe('DebouncedNotifier', () => {
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    consoleErrorSpy = mockConsoleError();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should coalesce a burst of changes into one notification', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const notifier = new DebouncedNotifier(send, 100);
+
+    for (let i = 0; i < 200; i++) {
+      notifier.schedule();
+      await vi.advanceTimersByTimeAsync(5);
+    }
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send again for changes after the debounce window', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const notifier = new DebouncedNotifier(send, 100);
+
+    notifier.schedule();
+    await vi.advanceTimersByTimeAsync(150);
+    notifier.schedule();
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log send failures instead of throwing', async () => {
+    const notifier = new DebouncedNotifier(() => Promise.reject(new Error('Not connected')), 100);
+
+    notifier.schedule();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to send notification:', 'Not connected');
+  });
+
+  it('should cancel pending notifications on dispose', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const notifier = new DebouncedNotifier(send, 100);
+
+    notifier.schedule();
+    notifier.dispose();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Prompt lookup cost as the library grows, measured in file system calls rather than time
+ * so the results do not depend on how busy the machine is
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { PromptCache } from '../src/cache.js';
+import { PromptFileOperations } from '../src/fileOperations.js';
+import { createTempDir, cleanupTempDir } from './helpers/testUtils.js';
+
+const PROMPTS_PER_FOLDER = 100;
+
+/**
+ * Create a library of prompts spread over folders of PROMPTS_PER_FOLDER prompts each
+ */
+async function createLibrary(dir: string, size: number): Promise<void> {
+  for (let folder = 0; folder * PROMPTS_PER_FOLDER < size; folder++) {
+    const folderPath = path.join(dir, `folder-${folder}`);
+    await fs.mkdir(folderPath, { recursive: true });
+    await Promise.all(
+      Array.from({ length: Math.min(PROMPTS_PER_FOLDER, size - folder * PROMPTS_PER_FOLDER) }, (_, index) =>
+        fs.writeFile(path.join(folderPath, `prompt-${index}.md`), `---\ntitle: Prompt ${folder}-${index}\n---\nBody of prompt ${index}`)
+      )
+    );
+  }
+}
+
+/**
+ * Number of file system calls made by reading a prompt
+ */
+async function countReadCalls(fileOps: PromptFileOperations, name: string): Promise<number> {
+  const spies = (['readdir', 'stat', 'access', 'readFile'] as const).map((method) => vi.spyOn(fs, method));
+  try {
+    await fileOps.readPrompt(name);
+    return spies.reduce((total, spy) => total + spy.mock.calls.length, 0);
+  } finally {
+    spies.forEach((spy) => spy.mockRestore());
+  }
+}
+
+describe('Prompt lookup performance', () => {
+  let smallDir: string;
+  let largeDir: string;
+  let smallOps: PromptFileOperations;
+  let largeOps: PromptFileOperations;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    smallDir = await createTempDir();
+    largeDir = await createTempDir();
+    await createLibrary(smallDir, 100);
+    await createLibrary(largeDir, 10_000);
+
+    // Load the caches up front; the benchmark does not need file watchers
+    const smallCache = new PromptCache(smallDir);
+    const largeCache = new PromptCache(largeDir);
+    await smallCache.initializeCache();
+    await largeCache.initializeCache();
+    smallOps = new PromptFileOperations(smallDir, smallCache);
+    largeOps = new PromptFileOperations(largeDir, largeCache);
+  }, 120_000);
+
+  afterAll(async () => {
+    await cleanupTempDir(smallDir);
+    await cleanupTempDir(largeDir);
+    vi.restoreAllMocks();
+  });
+
+  it('should read cached prompts without walking the directory tree', async () => {
+    const readdirSpy = vi.spyOn(fs, 'readdir');
+
+    await largeOps.readPrompt('folder-99/prompt-99');
+
+    expect(readdirSpy).not.toHaveBeenCalled();
+    readdirSpy.mockRestore();
+  });
+
+  it('should do the same work for a get with 100 or 10,000 prompts', async () => {
+    const small = await countReadCalls(smallOps, 'folder-0/prompt-99');
+    const large = await countReadCalls(largeOps, 'folder-99/prompt-99');
+
+    // A directory walk would grow with the number of folders
+    expect(large).toBe(small);
+    expect(large).toBeLessThanOrEqual(2);
+  });
+
+  it('should still find prompts missing from the cache', async () => {
+    await fs.writeFile(path.join(largeDir, 'folder-0', 'new-prompt.md'), 'Added after the cache was built');
+
+    expect(await largeOps.readPrompt('folder-0/new-prompt')).toBe('Added after the cache was built');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for prompt facet queries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeFacets, getFacetValues, matchesPromptQuery, parsePromptQuery } from '../src/promptQuery.js';
+import { createSamplePromptInfo } from './helpers/testUtils.js';
+
+describe('Prompt queries', () => {
+  describe('parsePromptQuery', () => {
+    it('should parse filters, alternatives and free text', () => {
+      expect(parsePromptQuery('tags:security,Testing difficulty:advanced sql injection')).toEqual({
+        filters: [
+          { field: 'tags', values: ['security', 'testing'] },
+          { field: 'difficulty', values: ['advanced'] }
+        ],
+        text: 'sql injection'
+      });
+    });
+
+    it('should accept aliases and quoted values', () => {
+      expect(parsePromptQuery('tag:"code review" categories:development "exact phrase"')).toEqual({
+        filters: [
+          { field: 'tags', values: ['code review'] },
+          { field: 'category', values: ['development'] }
+        ],
+        text: 'exact phrase'
+      });
+    });
+
+    it('should reject unknown filters and empty values', () => {
+      expect(() => parsePromptQuery('author:me')).toThrow('Unknown filter "author:"');
+      expect(() => parsePromptQuery('tags:')).toThrow('Filter "tags:" needs a value');
+    });
+  });
+
+  describe('matchesPromptQuery', () => {
+    const prompt = createSamplePromptInfo({
+      metadata: { tags: ['Security', 'testing'], category: 'development', difficulty: 'advanced' }
+    });
+
+    it('should require every filter and any of its values', () => {
+      expect(matchesPromptQuery(prompt, parsePromptQuery('tags:security category:development'))).toBe(true);
+      expect(matchesPromptQuery(prompt, parsePromptQuery('tags:docs,testing'))).toBe(true);
+      expect(matchesPromptQuery(prompt, parsePromptQuery('tags:security tags:docs'))).toBe(false);
+      expect(matchesPromptQuery(prompt, parsePromptQuery('difficulty:beginner'))).toBe(false);
+    });
+
+    it('should read comma-separated tag strings', () => {
+      expect(getFacetValues({ tags: 'a, B' as unknown as string[] }, 'tags')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('computeFacets', () => {
+    it('should count values, most common first', () => {
+      const facets = computeFacets([
+        createSamplePromptInfo({ metadata: { tags: ['b', 'a'], difficulty: 'beginner' } }),
+        createSamplePromptInfo({ metadata: { tags: ['a'], category: 'docs' } })
+      ]);
+
+      expect(facets).toEqual({
+        total: 2,
+        tags: [{ value: 'a', count: 2 }, { value: 'b', count: 1 }],
+        categories: [{ value: 'docs', count: 1 }],
+        difficulties: [{ value: 'beginner', count: 1 }]
+      });
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Tests for PromptHandlers class
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ErrorCode, GetPromptResult, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptCache } from '../src/cache.js';
+import { PromptFileOperations } from '../src/fileOperations.js';
+import { PromptHandlers } from '../src/prompts.js';
+import { createTempDir, cleanupTempDir, createTestPromptFile, mockConsoleError } from './helpers/testUtils.js';
+
+/**
+ * Extract the trimmed text of a rendered prompt message
+ */
+function messageText(result: GetPromptResult, index = 0): string {
+  const content = result.messages[index]?.content;
+  return content?.type === 'text' ? content.text.trim() : '';
+}
+
+describe('PromptHandlers', () => {
+  let tempDir: string;
+  let cache: PromptCache;
+  let handlers: PromptHandlers;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+    cache = new PromptCache(tempDir);
+    handlers = new PromptHandlers(new PromptFileOperations(tempDir, cache));
+  });
+
+  afterEach(async () => {
+    await cache.cleanup();
+    await cleanupTempDir(tempDir);
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('handleListPrompts', () => {
+    it('should advertise declared arguments', async () => {
+      await createTestPromptFile(tempDir, 'review', {
+        title: 'Review',
+        arguments: [
+          { name: 'code', description: 'Code to review', required: true },
+          { name: 'language', default: 'TypeScript', required: true }
+        ]
+      }, 'Review this {{language}} code: {{code}}');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts[0]?.arguments).toEqual([
+        { name: 'code', description: 'Code to review', required: true },
+        { name: 'language', required: false }
+      ]);
+    });
+
+    it('should advertise an empty argument list for prompts without declarations', async () => {
+      await createTestPromptFile(tempDir, 'plain', {}, 'No arguments here');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts[0]?.arguments).toEqual([]);
+    });
+
+    it('should advertise arguments inferred from placeholders', async () => {
+      await createTestPromptFile(tempDir, 'explain', {}, 'Explain this {language} snippet:\n\n{{code}}\n\nAgain: {{ code }}');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts[0]?.arguments).toEqual([
+        { name: 'language', required: false },
+        { name: 'code', required: false }
+      ]);
+    });
+
+    it('should prefer explicit declarations over inferred arguments', async () => {
+      await createTestPromptFile(tempDir, 'explain', {
+        arguments: [{ name: 'code', description: 'Snippet to explain', required: true }]
+      }, 'Explain this {language} snippet: {{code}}');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts[0]?.arguments).toEqual([
+        { name: 'code', description: 'Snippet to explain', required: true },
+        { name: 'language', required: false }
+      ]);
+    });
+
+    it('should not infer escaped placeholders or when inference is disabled', async () => {
+      await createTestPromptFile(tempDir, 'escaped', {}, 'Use \\{{name}} and \\{other} literally');
+      await createTestPromptFile(tempDir, 'opted-out', { inferArguments: false }, 'Example: {value}');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts.find(p => p.name === 'escaped')?.arguments).toEqual([]);
+      expect(result.prompts.find(p => p.name === 'opted-out')?.arguments).toEqual([]);
+    });
+
+    it('should keep prompts with invalid frontmatter listed but flagged', async () => {
+      await createTestPromptFile(tempDir, 'typo', { title: 'Typo', difficulty: 'expert' as 'advanced' });
+      await createTestPromptFile(tempDir, 'valid', { title: 'Valid' });
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts.find(p => p.name === 'typo')?._meta).toEqual({
+        diagnostics: [{ source: 'schema', message: 'difficulty must be one of: beginner, intermediate, advanced', line: 3, field: 'difficulty' }]
+      });
+      expect(result.prompts.find(p => p.name === 'valid')?._meta).toBeUndefined();
+    });
+  });
+
+  describe('partials', () => {
+    it('should hide partials from the prompt list and infer their arguments for includers', async () => {
+      await createTestPromptFile(`${tempDir}/partials`, 'checklist', { partial: true }, 'Focus on {{focus}} in {{language}}');
+      await createTestPromptFile(tempDir, 'review', {}, '{{> partials/checklist focus="security"}}\n{{code}}');
+
+      const result = await handlers.handleListPrompts();
+
+      expect(result.prompts.map(p => p.name)).toEqual(['review']);
+      expect(result.prompts[0]?.arguments).toEqual([
+        { name: 'language', required: false },
+        { name: 'code', required: false }
+      ]);
+    });
+
+    it('should refuse to get a partial on its own', async () => {
+      await createTestPromptFile(`${tempDir}/partials`, 'checklist', { partial: true }, 'Focus on {{focus}}');
+
+      const error = await handlers.handleGetPrompt('partials/checklist').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error).toMatchObject({ code: ErrorCode.InvalidParams });
+      expect((error as McpError).message).toContain('Prompt "partials/checklist" is a partial');
+    });
+  });
+
+  describe('handleGetPrompt', () => {
+    it('should substitute provided arguments', async () => {
+      await createTestPromptFile(tempDir, 'greeting', {}, 'Hello {{name}}, welcome to {place}');
+
+      const result = await handlers.handleGetPrompt('greeting', { name: 'Ada', place: 'the team' });
+
+      expect(messageText(result)).toBe('Hello Ada, welcome to the team');
+    });
+
+    it('should apply declared defaults', async () => {
+      await createTestPromptFile(tempDir, 'review', {
+        arguments: [{ name: 'language', default: 'TypeScript' }]
+      }, 'Review this {{language}} code');
+
+      const result = await handlers.handleGetPrompt('review');
+
+      expect(messageText(result)).toBe('Review this TypeScript code');
+    });
+
+    it('should reject calls missing required arguments', async () => {
+      await createTestPromptFile(tempDir, 'review', {
+        arguments: [{ name: 'code', required: true }, { name: 'focus', required: true }]
+      }, 'Review {{code}} with focus on {{focus}}');
+
+      const error = await handlers.handleGetPrompt('review', { focus: 'security' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('missing required argument(s): code');
+    });
+
+    it('should render tags of other template languages as written', async () => {
+      await createTestPromptFile(tempDir, 'jinja', {}, 'Explain {{ user.name | title }} to {{name}}');
+
+      const result = await handlers.handleGetPrompt('jinja', { name: 'Ada' });
+
+      expect(messageText(result)).toBe('Explain {{ user.name | title }} to Ada');
+    });
+
+    it('should reject template syntax errors as invalid params', async () => {
+      await createTestPromptFile(tempDir, 'unclosed', {}, '{{#if tests}}\nAlso the tests.');
+
+      const error = await handlers.handleGetPrompt('unclosed').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('Unclosed {{#if}} block');
+    });
+
+    it('should emit escaped placeholders literally', async () => {
+      await createTestPromptFile(tempDir, 'escaped', {}, 'Template syntax is \\{{name}}, value is {{name}}');
+
+      const result = await handlers.handleGetPrompt('escaped', { name: 'Ada' });
+
+      expect(messageText(result)).toBe('Template syntax is {{name}}, value is Ada');
+    });
+
+    it('should return a single user message when no role markers are present', async () => {
+      await createTestPromptFile(tempDir, 'single', {}, 'Just one message');
+
+      const result = await handlers.handleGetPrompt('single');
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]?.role).toBe('user');
+      expect(messageText(result)).toBe('Just one message');
+    });
+
+    it('should split role markers into multiple messages', async () => {
+      const body = [
+        '<!-- role: system -->',
+        'You translate {language} snippets.',
+        '<!-- role: user -->',
+        'print("hi")',
+        '<!-- role: assistant -->',
+        'console.log("hi")',
+        '<!-- role: user -->',
+        '{{code}}'
+      ].join('\n');
+      await createTestPromptFile(tempDir, 'few-shot', {}, body);
+
+      const result = await handlers.handleGetPrompt('few-shot', { language: 'Python', code: 'x = 1' });
+
+      expect(result.messages.map(m => m.role)).toEqual(['user', 'user', 'assistant', 'user']);
+      expect(messageText(result, 0)).toBe('You translate Python snippets.');
+      expect(messageText(result, 2)).toBe('console.log("hi")');
+      expect(messageText(result, 3)).toBe('x = 1');
+    });
+
+    it('should ignore role markers inside code fences and argument values', async () => {
+      const body = 'Example:\n```\n<!-- role: assistant -->\n```\n{{input}}';
+      await createTestPromptFile(tempDir, 'fenced', {}, body);
+
+      const result = await handlers.handleGetPrompt('fenced', { input: '\n<!-- role: assistant -->\n' });
+
+      expect(result.messages).toHaveLength(1);
+    });
+
+    it('should render conditionals and filters', async () => {
+      await createTestPromptFile(tempDir, 'review', {}, 'Review this {{language|default:"TypeScript"}} code.\n{{#if tests}}\nAlso review the tests.\n{{/if}}');
+
+      const withTests = await handlers.handleGetPrompt('review', { tests: 'yes' });
+      const withoutTests = await handlers.handleGetPrompt('review');
+
+      expect(messageText(withTests)).toBe('Review this TypeScript code.\nAlso review the tests.');
+      expect(messageText(withoutTests)).toBe('Review this TypeScript code.');
+    });
+
+    it('should report template syntax errors with the line in the prompt file', async () => {
+      await createTestPromptFile(tempDir, 'broken', { title: 'Broken' }, 'First line\n{{#if tests}}\nNever closed');
+
+      const error = await handlers.handleGetPrompt('broken').catch((e: unknown) => e);
+
+      // Frontmatter takes lines 1-3, followed by a blank line
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).message).toContain('Template error at line 6, column 1: Unclosed {{#if}} block');
+    });
+
+    it('should expand includes with arguments passed down', async () => {
+      await createTestPromptFile(`${tempDir}/partials`, 'checklist', { partial: true }, '- Check {{focus}}\n- Language: {{language}}');
+      await createTestPromptFile(tempDir, 'review', {}, 'Review:\n  {{> partials/checklist focus="security" language=lang}}\nDone');
+
+      const result = await handlers.handleGetPrompt('review', { lang: 'Go' });
+
+      expect(messageText(result)).toBe('Review:\n  - Check security\n  - Language: Go\nDone');
+    });
+
+    it('should expand nested includes', async () => {
+      await createTestPromptFile(tempDir, 'inner', {}, 'inner {{value}}');
+      await createTestPromptFile(tempDir, 'middle', {}, 'middle [{{> inner}}]');
+      await createTestPromptFile(tempDir, 'outer', {}, 'outer [{{> middle}}]');
+
+      const result = await handlers.handleGetPrompt('outer', { value: 'x' });
+
+      expect(messageText(result)).toBe('outer [middle [inner x]]');
+    });
+
+    it('should report include cycles', async () => {
+      await createTestPromptFile(tempDir, 'a', {}, '{{> b}}');
+      await createTestPromptFile(tempDir, 'b', {}, '{{> a}}');
+
+      await expect(handlers.handleGetPrompt('a')).rejects.toThrow('Include cycle detected: a -> b -> a');
+    });
+
+    it('should report missing include targets', async () => {
+      await createTestPromptFile(tempDir, 'review', {}, '{{> partials/missing}}');
+
+      await expect(handlers.handleGetPrompt('review')).rejects.toThrow(
+        'Included prompt "partials/missing" not found (included from "review")'
+      );
+    });
+
+    it('should report invalid YAML frontmatter with its line', async () => {
+      await fs.writeFile(path.join(tempDir, 'broken.md'), '---\ntitle: [Broken\n---\nBody');
+
+      await expect(handlers.handleGetPrompt('broken')).rejects.toThrow(
+        'Prompt "broken" has invalid frontmatter at line 3: Invalid YAML frontmatter'
+      );
+    });
+
+    it('should throw not found error for unknown prompts', async () => {
+      await expect(handlers.handleGetPrompt('missing')).rejects.toThrow('Prompt "missing" not found');
+      await expect(handlers.handleGetPrompt('missing')).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for ResourceHandlers class
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { PromptCache } from '../src/cache.js';
+import { PromptFileOperations } from '../src/fileOperations.js';
+import { ResourceHandlers, promptNameToUri, uriToPromptName, SYNC_STATUS_URI } from '../src/resources.js';
+import { SyncScheduler } from '../src/syncScheduler.js';
+import { SyncStateStore } from '../src/syncState.js';
+import { createTempDir, cleanupTempDir, createTestPromptFile, mockConsoleError } from './helpers/testUtils.js';
+
+describe('ResourceHandlers', () => {
+  let tempDir: string;
+  let cache: PromptCache;
+  let handlers: ResourceHandlers;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+    cache = new PromptCache(tempDir);
+    handlers = new ResourceHandlers(new PromptFileOperations(tempDir, cache));
+  });
+
+  afterEach(async () => {
+    await cache.cleanup();
+    await cleanupTempDir(tempDir);
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('prompt URIs', () => {
+    it('should round-trip nested prompt names', () => {
+      expect(promptNameToUri('repo/my prompt')).toBe('prompt://repo/my%20prompt');
+      expect(uriToPromptName('prompt://repo/my%20prompt')).toBe('repo/my prompt');
+    });
+
+    it('should reject other schemes', () => {
+      expect(uriToPromptName('file:///etc/passwd')).toBeNull();
+      expect(uriToPromptName('prompt://')).toBeNull();
+    });
+  });
+
+  describe('handleListResources', () => {
+    it('should list every prompt file as a markdown resource', async () => {
+      await createTestPromptFile(tempDir, 'review', { title: 'Review', description: 'Reviews code' });
+      await createTestPromptFile(`${tempDir}/team`, 'nested');
+
+      const result = await handlers.handleListResources();
+
+      expect(result.resources).toHaveLength(4);
+      expect(result.resources.slice(0, 2).map(r => r.uri)).toEqual(['prompt-catalog://facets', 'prompt-catalog://diagnostics']);
+      expect(result.resources).toContainEqual({
+        uri: 'prompt://review',
+        name: 'review',
+        title: 'Review',
+        description: 'Reviews code',
+        mimeType: 'text/markdown'
+      });
+      expect(result.resources.some(r => r.uri === 'prompt://team/nested')).toBe(true);
+    });
+
+    it('should not list partials, like prompts/list', async () => {
+      await createTestPromptFile(tempDir, 'review', {}, '{{> partials/checklist}}');
+      await createTestPromptFile(`${tempDir}/partials`, 'checklist', { partial: true }, 'Check the tests');
+
+      const result = await handlers.handleListResources();
+
+      expect(result.resources.map(r => r.uri)).toContain('prompt://review');
+      expect(result.resources.map(r => r.uri)).not.toContain('prompt://partials/checklist');
+    });
+  });
+
+  describe('handleListResourceTemplates', () => {
+    it('should advertise a prompt URI template that matches nested names', async () => {
+      const result = await handlers.handleListResourceTemplates();
+      const template = new UriTemplate(result.resourceTemplates[0]?.uriTemplate ?? '');
+
+      expect(result.resourceTemplates[0]?.uriTemplate).toBe('prompt://{+name}');
+      expect(template.expand({ name: 'repo-name/prompt' })).toBe('prompt://repo-name/prompt');
+      expect(template.match('prompt://repo-name/prompt')).toEqual({ name: 'repo-name/prompt' });
+    });
+  });
+
+  describe('handleReadResource', () => {
+    it('should return raw markdown including frontmatter', async () => {
+      await createTestPromptFile(tempDir, 'review', { title: 'Review' }, 'Review {{code}}');
+
+      const result = await handlers.handleReadResource('prompt://review');
+
+      expect(result.contents[0]).toEqual({
+        uri: 'prompt://review',
+        mimeType: 'text/markdown',
+        text: '---\ntitle: "Review"\n---\n\nReview {{code}}'
+      });
+    });
+
+    it('should return facet counts as JSON', async () => {
+      await createTestPromptFile(tempDir, 'a', { tags: ['security', 'Testing'], difficulty: 'advanced' });
+      await createTestPromptFile(tempDir, 'b', { tags: ['security'], category: 'development' });
+      await createTestPromptFile(tempDir, 'shared', { tags: ['security'], partial: true });
+
+      const result = await handlers.handleReadResource('prompt-catalog://facets');
+
+      expect(result.contents[0]?.mimeType).toBe('application/json');
+      expect(JSON.parse(result.contents[0]?.text as string)).toEqual({
+        total: 2,
+        tags: [{ value: 'security', count: 2 }, { value: 'testing', count: 1 }],
+        categories: [{ value: 'development', count: 1 }],
+        difficulties: [{ value: 'advanced', count: 1 }]
+      });
+    });
+
+    it('should return frontmatter diagnostics as JSON', async () => {
+      await createTestPromptFile(tempDir, 'good', { difficulty: 'beginner' });
+      await createTestPromptFile(tempDir, 'typo', { title: 'Typo', difficulty: 'expert' as 'advanced' });
+
+      const result = await handlers.handleReadResource('prompt-catalog://diagnostics');
+
+      expect(JSON.parse(result.contents[0]?.text as string)).toEqual({
+        prompts: [
+          {
+            name: 'typo',
+            diagnostics: [{ source: 'schema', message: 'difficulty must be one of: beginner, intermediate, advanced', line: 3, field: 'difficulty' }]
+          }
+        ]
+      });
+    });
+
+    it('should serve the sync status only when repositories are synced', async () => {
+      await expect(handlers.handleReadResource(SYNC_STATUS_URI)).rejects.toThrow('Unsupported resource URI');
+
+      const state = new SyncStateStore(tempDir);
+      const sync = new SyncScheduler(async () => [{ name: 'team', url: 'acme/team', ref: 'main', status: 'synced', commit: 'abc' }], { intervalMs: 0, state });
+      await sync.syncNow();
+      handlers = new ResourceHandlers(new PromptFileOperations(tempDir, cache), sync);
+
+      expect((await handlers.handleListResources()).resources.map(r => r.uri)).toContain(SYNC_STATUS_URI);
+      const result = await handlers.handleReadResource(SYNC_STATUS_URI);
+      const status = JSON.parse(result.contents[0]?.text as string);
+      expect(status.repositories.team).toMatchObject({ status: 'synced', commit: 'abc' });
+      expect(status.history).toHaveLength(1);
+    });
+
+    it('should reject unknown prompts and unsupported URIs', async () => {
+      await expect(handlers.handleReadResource('prompt://missing')).rejects.toThrow(McpError);
+      await expect(handlers.handleReadResource('https://example.com')).rejects.toThrow('Unsupported resource URI');
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should report subscribed URIs affected by changes', async () => {
+      await handlers.handleSubscribe('prompt://review');
+      await handlers.handleSubscribe('prompt://team/nested');
+
+      expect(handlers.getAffectedSubscriptions('review')).toEqual(['prompt://review']);
+      expect(handlers.getAffectedSubscriptions('other')).toEqual([]);
+      expect(handlers.getAffectedSubscriptions()).toEqual(['prompt://review', 'prompt://team/nested']);
+
+      await handlers.handleUnsubscribe('prompt://review');
+      expect(handlers.getAffectedSubscriptions('review')).toEqual([]);
+
+      await handlers.handleSubscribe('prompt-catalog://facets');
+      await handlers.handleSubscribe('prompt-catalog://diagnostics');
+      expect(handlers.getAffectedSubscriptions('review')).toEqual(['prompt-catalog://facets', 'prompt-catalog://diagnostics']);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for SearchIndex class
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SearchIndex, tokenize } from '../src/searchIndex.js';
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.add({
+      name: 'code_review',
+      title: 'Code Review Assistant',
+      description: 'Comprehensive code review with focus on security',
+      tags: ['code-review', 'security'],
+      body: 'You are an experienced software engineer performing a code review.'
+    });
+    index.add({
+      name: 'debugging_assistant',
+      title: 'Debugging Assistant',
+      tags: ['debugging'],
+      body: 'Help me debug this issue. Consider security implications of the fix.'
+    });
+    index.add({
+      name: 'api_design',
+      title: 'API Design',
+      body: 'Design a REST API for the following requirements.'
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split on non-word characters and drop stop words', () => {
+      expect(tokenize('The code-review of repo/prompt_name')).toEqual(['code', 'review', 'repo', 'prompt', 'name']);
+    });
+  });
+
+  describe('search', () => {
+    it('should rank title and tag matches above body matches', () => {
+      const results = index.search('security');
+
+      expect(results.map(r => r.name)).toEqual(['code_review', 'debugging_assistant']);
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+    });
+
+    it('should combine scores of multiple terms', () => {
+      const results = index.search('debug assistant');
+
+      expect(results[0]?.name).toBe('debugging_assistant');
+    });
+
+    it('should match the last term as a prefix', () => {
+      expect(index.search('rest ap').map(r => r.name)).toEqual(['api_design']);
+    });
+
+    it('should return highlighted snippets', () => {
+      const [result] = index.search('engineer');
+
+      expect(result?.snippet).toContain('experienced software **engineer** performing');
+      expect(result?.title).toBe('Code Review Assistant');
+    });
+
+    it('should respect the result limit', () => {
+      expect(index.search('assistant', 1)).toHaveLength(1);
+    });
+
+    it('should return nothing for empty or unknown queries', () => {
+      expect(index.search('')).toEqual([]);
+      expect(index.search('the')).toEqual([]);
+      expect(index.search('kubernetes')).toEqual([]);
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('should replace documents on re-add', () => {
+      index.add({ name: 'api_design', body: 'GraphQL schema design' });
+
+      expect(index.search('rest')).toEqual([]);
+      expect(index.search('graphql').map(r => r.name)).toEqual(['api_design']);
+      expect(index.size()).toBe(3);
+    });
+
+    it('should forget removed documents', () => {
+      index.remove('code_review');
+
+      expect(index.search('security').map(r => r.name)).toEqual(['debugging_assistant']);
+      expect(index.size()).toBe(2);
+    });
+
+    it('should clear all documents', () => {
+      index.clear();
+
+      expect(index.size()).toBe(0);
+      expect(index.search('security')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Tests for sync providers, using local repositories and directories only
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSyncProvider, GitHubSyncProvider, GitSyncProvider, LocalMirrorProvider, SyncConflictError, SyncTarget } from '../src/syncProviders.js';
+import { GitHubSync } from '../src/githubSync.js';
+import { createTempDir, cleanupTempDir, mockConsoleError } from './helpers/testUtils.js';
+
+const execFileAsync = promisify(execFile);
+
+describe('sync providers', () => {
+  let tempDir: string;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+      await fs.writeFile(path.join(dir, name), content, 'utf-8');
+    }
+  }
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+  });
+
+  afterEach(async () => {
+    consoleErrorSpy.mockRestore();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should create the provider for each name', () => {
+    expect(createSyncProvider('git')).toBeInstanceOf(GitSyncProvider);
+    expect(createSyncProvider('github')).toBeInstanceOf(GitHubSyncProvider);
+    expect(createSyncProvider('local')).toBeInstanceOf(LocalMirrorProvider);
+  });
+
+  describe('GitSyncProvider', () => {
+    it('should sync a file:// repository without the GitHub CLI', async () => {
+      const work = path.join(tempDir, 'work');
+      const bare = path.join(tempDir, 'prompts.git');
+      const git = (cwd: string, ...args: string[]) => execFileAsync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+      await git(tempDir, 'init', '-q', '--bare', '-b', 'main', bare);
+      await git(tempDir, 'init', '-q', '-b', 'main', work);
+      await writeFiles(work, { 'review.md': 'review' });
+      await git(work, 'add', '.');
+      await git(work, 'commit', '-q', '-m', 'review');
+      await git(work, 'push', '-q', bare, 'main');
+      const target: SyncTarget = { repo: 'team', url: pathToFileURL(bare).href, provider: 'git', ref: 'main', pullStrategy: 'fail' };
+
+      const checkout = await new GitSyncProvider().sync(target, path.join(tempDir, 'prompts', 'team'));
+
+      expect(checkout.commit).toMatch(/^[0-9a-f]{40}$/);
+      expect(await fs.readFile(path.join(tempDir, 'prompts', 'team', 'review.md'), 'utf-8')).toBe('review');
+    });
+
+    describe('pull strategies', () => {
+      const git = (cwd: string, ...args: string[]) => execFileAsync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+      let work: string;
+      let folder: string;
+      let target: SyncTarget;
+
+      async function push(files: Record<string, string>): Promise<void> {
+        await writeFiles(work, files);
+        await git(work, 'add', '.');
+        await git(work, 'commit', '-q', '-m', 'update');
+        await git(work, 'push', '-q', 'origin', 'main');
+      }
+
+      async function read(file: string): Promise<string> {
+        return await fs.readFile(path.join(folder, file), 'utf-8');
+      }
+
+      beforeEach(async () => {
+        const bare = path.join(tempDir, 'prompts.git');
+        work = path.join(tempDir, 'work');
+        folder = path.join(tempDir, 'prompts', 'team');
+        await git(tempDir, 'init', '-q', '--bare', '-b', 'main', bare);
+        await git(tempDir, 'init', '-q', '-b', 'main', work);
+        await git(work, 'remote', 'add', 'origin', bare);
+        await push({ 'review.md': 'line 1\nline 2\nline 3\n', 'style.md': 'style\n' });
+        target = { repo: 'team', url: pathToFileURL(bare).href, provider: 'git', ref: 'main', pullStrategy: 'fail' };
+        await new GitSyncProvider().sync(target, folder);
+      });
+
+      it('should fail with the conflicting files and keep edits the update does not touch', async () => {
+        await push({ 'review.md': 'line 1\nline 2\nline 3 upstream\n' });
+        await writeFiles(folder, { 'review.md': 'local\n', 'style.md': 'local style\n' });
+
+        const error = await new GitSyncProvider().sync(target, folder).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(SyncConflictError);
+        expect((error as SyncConflictError).conflicts).toEqual([{ file: 'review.md', resolution: 'unresolved' }]);
+        expect(await read('review.md')).toBe('local\n');
+
+        await writeFiles(folder, { 'review.md': 'line 1\nline 2\nline 3\n' });
+        const checkout = await new GitSyncProvider().sync(target, folder);
+        expect(checkout.conflicts).toBeUndefined();
+        expect(await read('review.md')).toBe('line 1\nline 2\nline 3 upstream\n');
+        expect(await read('style.md')).toBe('local style\n');
+      });
+
+      it('should stash and reapply local edits, merging them where possible', async () => {
+        await push({ 'review.md': 'line 1\nline 2\nline 3 upstream\n', 'style.md': 'upstream style\n' });
+        await writeFiles(folder, { 'review.md': 'line 1 local\nline 2\nline 3\n', 'style.md': 'local style\n', 'mine.md': 'mine\n' });
+
+        const checkout = await new GitSyncProvider().sync({ ...target, pullStrategy: 'stash' }, folder);
+
+        expect(checkout.history).toBe('fast-forward');
+        expect(checkout.conflicts).toEqual([{ file: 'style.md', resolution: 'upstream' }]);
+        expect(await read('review.md')).toBe('line 1 local\nline 2\nline 3 upstream\n');
+        expect(await read('style.md')).toBe('upstream style\n');
+        expect(await read('mine.md')).toBe('mine\n');
+        const { stdout } = await git(folder, 'show', `${checkout.stash}:style.md`);
+        expect(stdout).toBe('local style\n');
+      });
+
+      it('should keep local edits over upstream changes with overlay', async () => {
+        await push({ 'review.md': 'upstream\n' });
+        await writeFiles(folder, { 'review.md': 'local\n' });
+
+        const checkout = await new GitSyncProvider().sync({ ...target, pullStrategy: 'overlay' }, folder);
+
+        expect(checkout.conflicts).toEqual([{ file: 'review.md', resolution: 'local' }]);
+        expect(await read('review.md')).toBe('local\n');
+      });
+
+      it('should discard local edits but keep new local files with reset', async () => {
+        await push({ 'review.md': 'upstream\n' });
+        await writeFiles(folder, { 'review.md': 'local\n', 'style.md': 'local style\n', 'mine.md': 'mine\n' });
+
+        const checkout = await new GitSyncProvider().sync({ ...target, pullStrategy: 'reset' }, folder);
+
+        expect(checkout.conflicts).toEqual([
+          { file: 'review.md', resolution: 'upstream' },
+          { file: 'style.md', resolution: 'upstream' },
+        ]);
+        expect(await read('review.md')).toBe('upstream\n');
+        expect(await read('style.md')).toBe('style\n');
+        expect(await read('mine.md')).toBe('mine\n');
+      });
+
+      it('should detect local commits in a shallow clone and reapply them with stash', async () => {
+        await writeFiles(folder, { 'style.md': 'committed locally\n' });
+        await git(folder, 'commit', '-q', '-am', 'local');
+        await push({ 'review.md': 'upstream\n' });
+
+        await expect(new GitSyncProvider().sync(target, folder)).rejects.toThrow('1 commit(s) that are not in main');
+
+        const checkout = await new GitSyncProvider().sync({ ...target, pullStrategy: 'stash' }, folder);
+        expect(checkout.history).toBe('diverged');
+        expect(checkout.conflicts).toBeUndefined();
+        expect(await read('review.md')).toBe('upstream\n');
+        expect(await read('style.md')).toBe('committed locally\n');
+      });
+    });
+  });
+
+  describe('LocalMirrorProvider', () => {
+    let sourceDir: string;
+    let folder: string;
+    let target: SyncTarget;
+
+    beforeEach(() => {
+      sourceDir = path.join(tempDir, 'share');
+      folder = path.join(tempDir, 'prompts', 'share');
+      target = { repo: 'share', url: sourceDir, provider: 'local', ref: 'main', pullStrategy: 'fail' };
+    });
+
+    it('should copy visible files and report what changed on later syncs', async () => {
+      await writeFiles(sourceDir, { 'review.md': 'v1', 'nested/style.md': 'style', '.git/config': 'ignored' });
+      const provider = new LocalMirrorProvider();
+
+      const first = await provider.sync(target, folder);
+      expect(first.previousCommit).toBeUndefined();
+      expect(await fs.readFile(path.join(folder, 'nested', 'style.md'), 'utf-8')).toBe('style');
+      await expect(fs.access(path.join(folder, '.git'))).rejects.toThrow();
+
+      await writeFiles(sourceDir, { 'review.md': 'v2', 'new.md': 'new' });
+      await fs.rm(path.join(sourceDir, 'nested', 'style.md'));
+      const second = await provider.sync(target, folder);
+
+      expect(second).toEqual({ commit: expect.any(String), previousCommit: first.commit, changedFiles: ['nested/style.md', 'new.md', 'review.md'] });
+      expect(await fs.readFile(path.join(folder, 'review.md'), 'utf-8')).toBe('v2');
+      await expect(fs.access(path.join(folder, 'nested', 'style.md'))).rejects.toThrow();
+      expect((await provider.sync(target, folder)).changedFiles).toEqual([]);
+    });
+
+    it('should mirror only the subdirectory', async () => {
+      await writeFiles(sourceDir, { 'README.md': 'readme', 'prompts/review.md': 'review' });
+
+      await new LocalMirrorProvider().sync({ ...target, subdirectory: 'prompts' }, folder);
+
+      expect(await fs.readFile(path.join(folder, 'prompts', 'review.md'), 'utf-8')).toBe('review');
+      await expect(fs.access(path.join(folder, 'README.md'))).rejects.toThrow();
+    });
+
+    it('should refuse a locked sync after the directory changed', async () => {
+      await writeFiles(sourceDir, { 'review.md': 'v1' });
+      const { commit } = await new LocalMirrorProvider().sync(target, folder);
+      await writeFiles(sourceDir, { 'review.md': 'v2' });
+
+      await expect(new LocalMirrorProvider().sync(target, folder, commit)).rejects.toThrow(`${sourceDir} changed since it was locked`);
+      expect(await fs.readFile(path.join(folder, 'review.md'), 'utf-8')).toBe('v1');
+    });
+  });
+
+  describe('provider selection', () => {
+    it('should use the configured provider for each repository and lock local mirrors', async () => {
+      const promptsDir = path.join(tempDir, 'prompts');
+      await writeFiles(path.join(tempDir, 'share'), { 'review.md': 'review' });
+
+      const results = await new GitHubSync(promptsDir, {
+        ref: 'main',
+        frozen: false,
+        repositories: [
+          { url: path.join(tempDir, 'share'), provider: 'local', name: 'shared' },
+          { url: path.join(tempDir, 'share'), provider: 'github' },
+        ],
+      }).syncFromGitHub();
+
+      expect(results.map(({ name, status }) => ({ name, status }))).toEqual([
+        { name: 'shared', status: 'synced' },
+        { name: path.join(tempDir, 'share'), status: 'failed' },
+      ]);
+      expect(results[1]?.error).toContain('is not a GitHub repository; use the git provider');
+      expect(await fs.readFile(path.join(promptsDir, 'shared', 'review.md'), 'utf-8')).toBe('review');
+
+      const lock = JSON.parse(await fs.readFile(path.join(promptsDir, 'prompts.lock'), 'utf-8'));
+      expect(lock.repositories.shared.commit).toBe(results[0]?.commit);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the background sync scheduler
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncScheduler, MAX_SYNC_BACKOFF_MS } from '../src/syncScheduler.js';
+import { SyncStateStore } from '../src/syncState.js';
+import { RepositorySyncResult } from '../src/types.js';
+import { createTempDir, cleanupTempDir, mockConsoleError } from './helpers/testUtils.js';
+
+const INTERVAL = 60_000;
+
+function result(status: RepositorySyncResult['status']): RepositorySyncResult[] {
+  return [{ name: 'team', url: 'acme/team', ref: 'main', status }];
+}
+
+describe('SyncScheduler', () => {
+  let runSync: ReturnType<typeof vi.fn<() => Promise<RepositorySyncResult[]>>>;
+  let scheduler: SyncScheduler;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    consoleErrorSpy = mockConsoleError();
+    runSync = vi.fn(async () => result('synced'));
+    // random() = 0.5 means no jitter
+    scheduler = new SyncScheduler(runSync, { intervalMs: INTERVAL, random: () => 0.5 });
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    vi.useRealTimers();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should sync once per interval after starting', async () => {
+    scheduler.start();
+    expect(runSync).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(runSync).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(runSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should add up to 10% jitter to the interval', () => {
+    expect(new SyncScheduler(runSync, { intervalMs: INTERVAL, random: () => 0 }).getNextDelay()).toBe(INTERVAL * 0.9);
+    expect(new SyncScheduler(runSync, { intervalMs: INTERVAL, random: () => 0.75 }).getNextDelay()).toBe(INTERVAL * 1.05);
+  });
+
+  it('should back off after failures and return to the interval after a success', async () => {
+    runSync.mockResolvedValueOnce(result('failed')).mockRejectedValueOnce(new Error('offline'));
+
+    await scheduler.syncNow();
+    expect(scheduler.getNextDelay()).toBe(INTERVAL * 2);
+    await expect(scheduler.syncNow()).rejects.toThrow('offline');
+    expect(scheduler.getNextDelay()).toBe(INTERVAL * 4);
+
+    await scheduler.syncNow();
+    expect(scheduler.getNextDelay()).toBe(INTERVAL);
+  });
+
+  it('should cap the backoff', async () => {
+    runSync.mockResolvedValue(result('failed'));
+    for (let i = 0; i < 10; i++) {
+      await scheduler.syncNow();
+    }
+
+    expect(scheduler.getNextDelay()).toBe(MAX_SYNC_BACKOFF_MS);
+  });
+
+  it('should join a running sync instead of starting another', async () => {
+    let finish: (results: RepositorySyncResult[]) => void = () => {};
+    runSync.mockImplementationOnce(() => new Promise((resolve) => { finish = resolve; }));
+
+    const first = scheduler.syncNow();
+    const second = scheduler.syncNow();
+    finish(result('synced'));
+
+    expect(await second).toBe(await first);
+    expect(runSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log background failures and keep going', async () => {
+    runSync.mockRejectedValueOnce(new Error('offline'));
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Background sync failed:', 'offline');
+
+    await vi.advanceTimersByTimeAsync(INTERVAL * 2);
+    expect(runSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop syncing when stopped or when the interval is set to 0', async () => {
+    scheduler.start();
+    scheduler.setInterval(0);
+    await vi.advanceTimersByTimeAsync(INTERVAL * 10);
+    expect(runSync).not.toHaveBeenCalled();
+
+    scheduler.setInterval(INTERVAL);
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(runSync).toHaveBeenCalledTimes(1);
+
+    await scheduler.stop();
+    await vi.advanceTimersByTimeAsync(INTERVAL * 10);
+    expect(runSync).toHaveBeenCalledTimes(1);
+  });
+
+  describe('status', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir();
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('should record each run with its trigger and notify listeners', async () => {
+      const state = new SyncStateStore(tempDir);
+      scheduler = new SyncScheduler(runSync, { intervalMs: INTERVAL, random: () => 0.5, state });
+      const listener = vi.fn();
+      const unsubscribe = scheduler.onChange(listener);
+
+      await scheduler.syncNow('startup');
+      runSync.mockRejectedValueOnce(new Error('offline'));
+      await expect(scheduler.syncNow()).rejects.toThrow('offline');
+      unsubscribe();
+      await scheduler.syncNow();
+
+      const { history, repositories } = scheduler.getStatus();
+      expect(history.map(({ trigger, error }) => ({ trigger, error }))).toEqual([
+        { trigger: 'startup', error: undefined },
+        { trigger: 'manual', error: 'offline' },
+        { trigger: 'manual', error: undefined },
+      ]);
+      expect(repositories.team?.status).toBe('synced');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report when the next background sync is due', async () => {
+      expect(scheduler.getStatus().nextSyncAt).toBeUndefined();
+
+      scheduler.start();
+
+      expect(scheduler.getStatus().nextSyncAt).toBe(new Date(Date.now() + INTERVAL).toISOString());
+    });
+  });
+});
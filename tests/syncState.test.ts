@@ -0,0 +1,84 @@
+/**
+ * Tests for the persisted sync state
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SyncStateStore, SYNC_STATE_FILE, MAX_SYNC_HISTORY } from '../src/syncState.js';
+import { SyncRun } from '../src/types.js';
+import { createTempDir, cleanupTempDir, mockConsoleError } from './helpers/testUtils.js';
+
+function run(finishedAt: string, status: 'synced' | 'failed', extra: { commit?: string; error?: string } = {}): SyncRun {
+  return {
+    trigger: 'background',
+    startedAt: finishedAt,
+    finishedAt,
+    repositories: [{ name: 'team', url: 'acme/team', ref: 'main', status, ...extra }],
+  };
+}
+
+describe('SyncStateStore', () => {
+  let tempDir: string;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+  });
+
+  afterEach(async () => {
+    consoleErrorSpy.mockRestore();
+    await cleanupTempDir(tempDir);
+  });
+
+  it('should keep the last success and commit when a later sync fails', async () => {
+    const store = new SyncStateStore(tempDir);
+
+    await store.record(run('2024-01-01T00:00:00.000Z', 'synced', { commit: 'abc' }));
+    await store.record(run('2024-01-02T00:00:00.000Z', 'failed', { error: 'offline' }));
+
+    expect(store.get().repositories.team).toEqual({
+      name: 'team',
+      url: 'acme/team',
+      ref: 'main',
+      status: 'failed',
+      lastAttempt: '2024-01-02T00:00:00.000Z',
+      lastSuccess: '2024-01-01T00:00:00.000Z',
+      commit: 'abc',
+      error: 'offline',
+    });
+    expect(store.get().history).toHaveLength(2);
+  });
+
+  it('should save the state and load it after a restart', async () => {
+    await new SyncStateStore(tempDir).record(run('2024-01-01T00:00:00.000Z', 'synced', { commit: 'abc' }));
+
+    const reloaded = new SyncStateStore(tempDir);
+    await reloaded.load();
+
+    expect(reloaded.get().repositories.team?.commit).toBe('abc');
+    expect(reloaded.get().history).toEqual([run('2024-01-01T00:00:00.000Z', 'synced', { commit: 'abc' })]);
+  });
+
+  it('should keep only the most recent runs', async () => {
+    const store = new SyncStateStore(tempDir);
+    for (let day = 1; day <= MAX_SYNC_HISTORY + 5; day++) {
+      await store.record(run(new Date(Date.UTC(2024, 0, day)).toISOString(), 'synced'));
+    }
+
+    const { history } = store.get();
+    expect(history).toHaveLength(MAX_SYNC_HISTORY);
+    expect(history[0]?.finishedAt).toBe(new Date(Date.UTC(2024, 0, 6)).toISOString());
+  });
+
+  it('should start fresh when the saved state is unreadable', async () => {
+    await fs.writeFile(path.join(tempDir, SYNC_STATE_FILE), '{not json', 'utf-8');
+
+    const store = new SyncStateStore(tempDir);
+    await store.load();
+
+    expect(store.get()).toEqual({ version: 1, repositories: {}, history: [] });
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining(`Ignoring ${SYNC_STATE_FILE}`));
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the prompt template engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectPartialNames, collectTemplateVariables, parseTemplate, renderTemplate, renderTemplateNodes, TemplateError } from '../src/template.js';
+
+describe('Template engine', () => {
+  describe('output', () => {
+    it('should substitute {{key}} and legacy {key} placeholders', () => {
+      expect(renderTemplate('Hello {{name}} from {place}', { name: 'Ada', place: 'London' })).toBe('Hello Ada from London');
+    });
+
+    it('should allow whitespace inside double braces', () => {
+      expect(renderTemplate('{{ name }}', { name: 'Ada' })).toBe('Ada');
+    });
+
+    it('should leave unknown plain placeholders untouched', () => {
+      expect(renderTemplate('Review {{code}} in {language}', {})).toBe('Review {{code}} in {language}');
+    });
+
+    it('should leave braces that are not placeholders alone', () => {
+      const source = 'function f() { return { a: 1 }; }';
+      expect(renderTemplate(source, {})).toBe(source);
+    });
+
+    it('should emit escaped placeholders literally', () => {
+      expect(renderTemplate('\\{{name}} and \\{name} vs {{name}}', { name: 'Ada' })).toBe('{{name}} and {name} vs Ada');
+    });
+
+    it('should not re-interpret template syntax inside argument values', () => {
+      expect(renderTemplate('{{input}}', { input: '{{#if x}}{{secret}}' })).toBe('{{#if x}}{{secret}}');
+    });
+
+    it('should drop comments', () => {
+      expect(renderTemplate('a{{! note for authors }}b', {})).toBe('ab');
+    });
+  });
+
+  describe('filters', () => {
+    it('should apply inline defaults', () => {
+      expect(renderTemplate('{{language|default:"TypeScript"}}', {})).toBe('TypeScript');
+      expect(renderTemplate('{{language|default:"TypeScript"}}', { language: 'Go' })).toBe('Go');
+    });
+
+    it('should chain filters', () => {
+      expect(renderTemplate('{{ name | trim | upper }}', { name: '  ada ' })).toBe('ADA');
+      expect(renderTemplate('{{name|default:"x|y"|capitalize}}', {})).toBe('X|y');
+    });
+
+    it('should indent all lines except the first', () => {
+      expect(renderTemplate('  {{code|indent:2}}', { code: 'a\nb\n\nc' })).toBe('  a\n  b\n\n  c');
+    });
+
+    it('should render filtered missing values as empty', () => {
+      expect(renderTemplate('[{{name|upper}}]', {})).toBe('[]');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should render conditionals with else branches', () => {
+      const source = '{{#if tests}}with tests{{else}}no tests{{/if}}';
+      expect(renderTemplate(source, { tests: 'yes' })).toBe('with tests');
+      expect(renderTemplate(source, { tests: 'false' })).toBe('no tests');
+      expect(renderTemplate(source, {})).toBe('no tests');
+    });
+
+    it('should render unless blocks', () => {
+      expect(renderTemplate('{{#unless brief}}details{{/unless}}', {})).toBe('details');
+      expect(renderTemplate('{{#unless brief}}details{{/unless}}', { brief: 'true' })).toBe('');
+    });
+
+    it('should iterate comma-separated lists', () => {
+      const source = '{{#each focus}}{{@index}}. {{this|capitalize}}{{#unless @last}}, {{/unless}}{{/each}}';
+      expect(renderTemplate(source, { focus: 'security, performance,,style' })).toBe('0. Security, 1. Performance, 2. Style');
+    });
+
+    it('should remove lines that only contain block tags', () => {
+      const source = 'Review:\n{{#if tests}}\n- tests\n{{/if}}\n- docs\n';
+      expect(renderTemplate(source, { tests: 'yes' })).toBe('Review:\n- tests\n- docs\n');
+      expect(renderTemplate(source, {})).toBe('Review:\n- docs\n');
+    });
+  });
+
+  describe('errors', () => {
+    it('should report unclosed blocks with their line', () => {
+      const error = (() => {
+        try {
+          parseTemplate('line one\n{{#if tests}}\nbody');
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(TemplateError);
+      expect((error as TemplateError).line).toBe(2);
+      expect((error as TemplateError).message).toContain('Unclosed {{#if}} block');
+    });
+
+    it('should report mismatched closing tags', () => {
+      expect(() => parseTemplate('{{#if a}}\n{{/each}}')).toThrow(
+        'Template error at line 2, column 1: Expected {{/if}} to close block opened at line 1, found {{/each}}'
+      );
+    });
+
+    it('should report unknown filters and invalid expressions', () => {
+      expect(() => parseTemplate('{{name|shout}}')).toThrow('Unknown filter "shout"');
+      expect(() => parseTemplate('{{name|constructor}}')).toThrow('Unknown filter "constructor"');
+      expect(() => parseTemplate('{{ user.name }}')).toThrow('Invalid expression "user.name"');
+    });
+
+    it('should reject include names outside the prompts directory', () => {
+      expect(() => parseTemplate('{{> ../secrets}}')).toThrow('Invalid include "{{> ../secrets}}"');
+      expect(() => parseTemplate('{{> /etc/passwd}}')).toThrow('Invalid include');
+      expect(() => parseTemplate('{{> shared focus=}}')).toThrow('Invalid include argument "focus="');
+    });
+
+    it('should keep tags of other template languages as literal text when asked to', () => {
+      const invalid: string[] = [];
+      const source = 'Use {{ user.name }} or {{ name | title }} and {{#with user}}{{/with}} {{';
+
+      const nodes = parseTemplate(source, { onInvalidTag: (error) => invalid.push(error.reason) });
+
+      expect(renderTemplateNodes(nodes, {})).toBe(source);
+      expect(invalid).toEqual([
+        'Invalid expression "user.name"',
+        'Unknown filter "title"',
+        'Unknown block "{{#with user}}"',
+        '{{/with}} without a matching opening block',
+        'Unclosed tag, expected "}}"',
+      ]);
+      expect(() => parseTemplate('{{#if a}}', { onInvalidTag: () => undefined })).toThrow('Unclosed {{#if}} block');
+    });
+
+    it('should report unclosed tags relative to the start line', () => {
+      expect(() => parseTemplate('ok\n{{name', { startLine: 10 })).toThrow('Template error at line 11, column 1');
+    });
+  });
+
+  describe('collectTemplateVariables', () => {
+    it('should collect names from output, conditions and loops', () => {
+      const nodes = parseTemplate('{{#if tests}}{{#each files}}{{this}} {{@index}}{{/each}}{{/if}} {{lang|default:"Go"}} {legacy}');
+      expect(collectTemplateVariables(nodes)).toEqual(['tests', 'files', 'lang', 'legacy']);
+    });
+
+    it('should collect names from partials except those bound by the include', () => {
+      const nodes = parseTemplate('{{> shared focus="security" tone=voice}}');
+      const partials = new Map([['shared', parseTemplate('{{focus}} {{tone}} {{language}}')]]);
+      expect(collectTemplateVariables(nodes, partials)).toEqual(['voice', 'language']);
+      expect(collectPartialNames(nodes)).toEqual(['shared']);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for ToolHandlers class
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptCache } from '../src/cache.js';
+import { PromptFileOperations } from '../src/fileOperations.js';
+import { ToolHandlers } from '../src/tools.js';
+import { SyncScheduler } from '../src/syncScheduler.js';
+import { SyncStateStore } from '../src/syncState.js';
+import { RepositorySyncResult } from '../src/types.js';
+import { createTempDir, cleanupTempDir, createTestPromptFile, mockConsoleError } from './helpers/testUtils.js';
+
+describe('ToolHandlers', () => {
+  let tempDir: string;
+  let cache: PromptCache;
+  let handlers: ToolHandlers;
+  let consoleErrorSpy: ReturnType<typeof mockConsoleError>;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir();
+    consoleErrorSpy = mockConsoleError();
+    cache = new PromptCache(tempDir);
+    handlers = new ToolHandlers(new PromptFileOperations(tempDir, cache));
+  });
+
+  afterEach(async () => {
+    await cache.cleanup();
+    await cleanupTempDir(tempDir);
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('handleListTools', () => {
+    it('should list the search_prompts tool', async () => {
+      const result = await handlers.handleListTools();
+
+      expect(result.tools.map(t => t.name)).toContain('search_prompts');
+    });
+  });
+
+  describe('handleCallTool', () => {
+    it('should reject unknown tools', async () => {
+      await expect(handlers.handleCallTool('unknown_tool')).rejects.toThrow(McpError);
+    });
+  });
+
+  describe('search_prompts', () => {
+    it('should return ranked results with snippets', async () => {
+      await createTestPromptFile(tempDir, 'security-review', { title: 'Security Review', tags: ['security'] }, 'Look for injection flaws.');
+      await createTestPromptFile(tempDir, 'summary', { title: 'Summary' }, 'Summarize the security report.');
+      await createTestPromptFile(tempDir, 'unrelated', { title: 'Unrelated' }, 'Nothing to see here.');
+
+      const result = await handlers.handleCallTool('search_prompts', { query: 'security' });
+      const { results } = result.structuredContent as { results: Array<{ name: string; score: number; snippet: string }> };
+
+      expect(result.isError).toBeUndefined();
+      expect(results.map(r => r.name)).toEqual(['security-review', 'summary']);
+      expect(results[1]?.snippet).toBe('Summarize the **security** report.');
+    });
+
+    it('should not return partials', async () => {
+      await createTestPromptFile(tempDir, 'code-review', { title: 'Code Review' }, 'Review the checklist.');
+      await createTestPromptFile(`${tempDir}/partials`, 'code_review_checklist', { partial: true }, 'Checklist for code review.');
+
+      const result = await handlers.handleCallTool('search_prompts', { query: 'checklist' });
+
+      expect((result.structuredContent as { results: Array<{ name: string }> }).results.map(r => r.name)).toEqual(['code-review']);
+    });
+
+    it('should pick up changes made after the cache was built', async () => {
+      await createTestPromptFile(tempDir, 'first', {}, 'alpha');
+      await handlers.handleCallTool('search_prompts', { query: 'alpha' });
+
+      await createTestPromptFile(tempDir, 'second', {}, 'alpha beta');
+      await cache.initializeCache();
+      const result = await handlers.handleCallTool('search_prompts', { query: 'beta' });
+
+      expect((result.structuredContent as { results: Array<{ name: string }> }).results.map(r => r.name)).toEqual(['second']);
+    });
+
+    it('should return a tool error for a missing query', async () => {
+      const result = await handlers.handleCallTool('search_prompts', {});
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'The "query" argument must be a non-empty string' }],
+        isError: true
+      });
+    });
+  });
+
+  describe('query_prompts', () => {
+    beforeEach(async () => {
+      await createTestPromptFile(tempDir, 'sql-audit', { title: 'SQL Audit', tags: ['security', 'database'], difficulty: 'advanced', category: 'development' }, 'Find SQL injection.');
+      await createTestPromptFile(tempDir, 'xss-audit', { tags: ['security'], difficulty: 'intermediate' }, 'Find XSS.');
+      await createTestPromptFile(tempDir, 'docs', { tags: ['writing'] }, 'Write docs.');
+    });
+
+    it('should filter by facets and count the matches', async () => {
+      const result = await handlers.handleCallTool('query_prompts', { query: 'tags:security difficulty:advanced,intermediate' });
+      const data = result.structuredContent as { total: number; prompts: Array<{ name: string }>; facets: { difficulties: unknown } };
+
+      expect(data.total).toBe(2);
+      expect(data.prompts.map(p => p.name)).toEqual(['sql-audit', 'xss-audit']);
+      expect(data.prompts[0]).toEqual({
+        name: 'sql-audit',
+        title: 'SQL Audit',
+        tags: ['security', 'database'],
+        category: 'development',
+        difficulty: 'advanced'
+      });
+      expect(data.facets.difficulties).toEqual([{ value: 'advanced', count: 1 }, { value: 'intermediate', count: 1 }]);
+    });
+
+    it('should combine filters with full-text search', async () => {
+      const result = await handlers.handleCallTool('query_prompts', { query: 'tags:security xss' });
+
+      expect((result.structuredContent as { prompts: Array<{ name: string }> }).prompts.map(p => p.name)).toEqual(['xss-audit']);
+    });
+
+    it('should return a tool error for invalid queries', async () => {
+      const result = await handlers.handleCallTool('query_prompts', { query: 'author:me' });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('lint_prompts', () => {
+    it('should report diagnostics for all or one prompt', async () => {
+      await createTestPromptFile(tempDir, 'typo', { difficulty: 'expert' as 'advanced' });
+      await createTestPromptFile(tempDir, 'tags', { tags: 'a,b' as unknown as string[] });
+
+      const all = (await handlers.handleCallTool('lint_prompts', {})).structuredContent as { prompts: Array<{ name: string }>; problemCount: number };
+      const one = (await handlers.handleCallTool('lint_prompts', { name: 'tags' })).structuredContent as { prompts: Array<{ name: string }>; problemCount: number };
+
+      expect(all.prompts.map(p => p.name)).toEqual(['tags', 'typo']);
+      expect(all.problemCount).toBe(2);
+      expect(one.prompts.map(p => p.name)).toEqual(['tags']);
+      expect(one.problemCount).toBe(1);
+    });
+  });
+
+  describe('prompt file tools', () => {
+    beforeEach(async () => {
+      await createTestPromptFile(tempDir, 'existing', { title: 'Existing' }, 'Original body');
+      // Load the cache so writes have to keep it consistent
+      await cache.initializeCache();
+    });
+
+    async function call(name: string, args: Record<string, unknown>) {
+      const result = await handlers.handleCallTool(name, args);
+      return { result, data: result.structuredContent as Record<string, unknown> };
+    }
+
+    it('should create prompts with frontmatter in subfolders and refresh the cache immediately', async () => {
+      const { result, data } = await call('create_prompt', {
+        name: 'Team/Code Review',
+        content: 'Review {{code}}',
+        metadata: { title: 'Code Review: strict', tags: ['review'] }
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(data.name).toBe('team/code_review');
+      const written = await fs.readFile(path.join(tempDir, 'team', 'code_review.md'), 'utf-8');
+      expect(written).toBe("---\ntitle: 'Code Review: strict'\ntags:\n  - review\n---\nReview {{code}}\n");
+      expect(cache.getPrompt('team/code_review')?.metadata.title).toBe('Code Review: strict');
+      expect(cache.getPrompt('team/code_review')?.arguments?.map(a => a.name)).toEqual(['code']);
+    });
+
+    it('should refuse to create a prompt that already exists', async () => {
+      const { result } = await call('create_prompt', { name: 'existing', content: 'x' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]).toEqual({ type: 'text', text: 'Prompt "existing" already exists' });
+    });
+
+    it('should keep path traversal inside the prompts directory', async () => {
+      const { data } = await call('create_prompt', { name: '../../escape', content: 'x' });
+      const { result } = await call('create_prompt', { name: '/etc/passwd', content: 'x' });
+
+      expect(data.name).toBe('__/__/escape');
+      await expect(fs.access(path.join(tempDir, '__', '__', 'escape.md'))).resolves.toBeUndefined();
+      expect(result.isError).toBe(true);
+      expect(result.content[0]).toEqual({ type: 'text', text: 'Invalid prompt name "/etc/passwd"' });
+    });
+
+    it('should update body and frontmatter when the version matches', async () => {
+      const { data: source } = await call('get_prompt_source', { name: 'existing' });
+      const { data: updated } = await call('update_prompt', {
+        name: 'existing',
+        expected_version: source.version,
+        content: 'New body'
+      });
+
+      expect(updated.version).not.toBe(source.version);
+      expect(await fs.readFile(path.join(tempDir, 'existing.md'), 'utf-8')).toBe('---\ntitle: Existing\n---\nNew body\n');
+      expect(cache.getPrompt('existing')?.preview).toBe('New body...');
+
+      const { data: retitled } = await call('update_prompt', {
+        name: 'existing',
+        expected_version: updated.version,
+        metadata: { title: 'Renamed title' }
+      });
+      expect(retitled.name).toBe('existing');
+      expect(cache.getPrompt('existing')?.metadata.title).toBe('Renamed title');
+    });
+
+    it('should reject updates when the prompt changed since it was read', async () => {
+      const { data: source } = await call('get_prompt_source', { name: 'existing' });
+      await createTestPromptFile(tempDir, 'existing', { title: 'Existing' }, 'Changed elsewhere');
+
+      const { result } = await call('update_prompt', { name: 'existing', expected_version: source.version, content: 'Mine' });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('Prompt "existing" was modified since it was read');
+      expect(await fs.readFile(path.join(tempDir, 'existing.md'), 'utf-8')).toContain('Changed elsewhere');
+    });
+
+    it('should rename prompts into subfolders', async () => {
+      const { data } = await call('rename_prompt', { name: 'existing', new_name: 'archive/existing' });
+
+      expect(data.name).toBe('archive/existing');
+      await expect(fs.access(path.join(tempDir, 'existing.md'))).rejects.toThrow();
+      expect(cache.getPrompt('existing')).toBeUndefined();
+      expect(cache.getPrompt('archive/existing')?.metadata.title).toBe('Existing');
+    });
+
+    it('should delete prompts and drop them from the cache', async () => {
+      const { data } = await call('delete_prompt', { name: 'existing' });
+      const { result } = await call('delete_prompt', { name: 'existing' });
+
+      expect(data).toEqual({ name: 'existing', deleted: true });
+      expect(cache.getPrompt('existing')).toBeUndefined();
+      expect(result.content[0]).toEqual({ type: 'text', text: 'Prompt "existing" not found' });
+    });
+  });
+
+  describe('sync_now', () => {
+    it('should only be listed when repositories are synced', async () => {
+      const withSync = new ToolHandlers(new PromptFileOperations(tempDir, cache), new SyncScheduler(async () => [], { intervalMs: 0 }));
+
+      expect((await handlers.handleListTools()).tools.map(t => t.name)).not.toContain('sync_now');
+      expect((await withSync.handleListTools()).tools.map(t => t.name)).toContain('sync_now');
+      await expect(handlers.handleCallTool('sync_now')).rejects.toThrow(McpError);
+    });
+
+    it('should sync and report what changed', async () => {
+      const repositories: RepositorySyncResult[] = [
+        { name: 'team', url: 'acme/team', ref: 'main', status: 'synced', commit: 'b', previousCommit: 'a', changedFiles: ['team/review.md'] },
+        { name: 'company', url: 'acme/company', ref: 'main', status: 'synced', commit: 'c', previousCommit: 'c', changedFiles: [] },
+        { name: 'new', url: 'acme/new', ref: 'main', status: 'synced', commit: 'd' },
+      ];
+      handlers = new ToolHandlers(new PromptFileOperations(tempDir, cache), new SyncScheduler(async () => repositories, { intervalMs: 0 }));
+
+      const result = await handlers.handleCallTool('sync_now');
+
+      expect(result.structuredContent).toEqual({ changed: ['team', 'new'], changedFiles: ['team/review.md'], repositories });
+    });
+
+    it('should return a tool error when the sync fails', async () => {
+      handlers = new ToolHandlers(
+        new PromptFileOperations(tempDir, cache),
+        new SyncScheduler(async () => { throw new Error('Frozen sync failed: team: offline'); }, { intervalMs: 0 })
+      );
+
+      const result = await handlers.handleCallTool('sync_now');
+
+      expect(result).toEqual({ content: [{ type: 'text', text: 'Frozen sync failed: team: offline' }], isError: true });
+    });
+  });
+
+  describe('sync_status', () => {
+    it('should only be listed when repositories are synced', async () => {
+      expect((await handlers.handleListTools()).tools.map(t => t.name)).not.toContain('sync_status');
+      await expect(handlers.handleCallTool('sync_status')).rejects.toThrow(McpError);
+    });
+
+    it('should report each repository and the most recent runs first', async () => {
+      const state = new SyncStateStore(tempDir);
+      const sync = new SyncScheduler(async () => [
+        { name: 'team', url: 'acme/team', ref: 'main', status: 'failed', error: 'offline' },
+      ], { intervalMs: 0, state });
+      handlers = new ToolHandlers(new PromptFileOperations(tempDir, cache), sync);
+      await sync.syncNow('startup');
+      await sync.syncNow();
+
+      const result = await handlers.handleCallTool('sync_status', { limit: 1 });
+
+      expect(result.structuredContent).toEqual({
+        repositories: [{ name: 'team', url: 'acme/team', ref: 'main', status: 'failed', lastAttempt: expect.any(String), error: 'offline' }],
+        recentRuns: [expect.objectContaining({ trigger: 'manual' })],
+      });
+    });
+
+    it('should return every run when there are fewer than the limit, and none for a limit of 0', async () => {
+      const sync = new SyncScheduler(async () => [
+        { name: 'team', url: 'acme/team', ref: 'main', status: 'synced', commit: 'abc' },
+      ], { intervalMs: 0, state: new SyncStateStore(tempDir) });
+      handlers = new ToolHandlers(new PromptFileOperations(tempDir, cache), sync);
+      await sync.syncNow('startup');
+      await sync.syncNow();
+      await sync.syncNow();
+
+      const all = await handlers.handleCallTool('sync_status');
+      const none = await handlers.handleCallTool('sync_status', { limit: 0 });
+
+      expect((all.structuredContent as { recentRuns: unknown[] }).recentRuns).toEqual([
+        expect.objectContaining({ trigger: 'manual' }),
+        expect.objectContaining({ trigger: 'manual' }),
+        expect.objectContaining({ trigger: 'startup' }),
+      ]);
+      expect((none.structuredContent as { recentRuns: unknown[] }).recentRuns).toEqual([]);
+    });
+  });
+});
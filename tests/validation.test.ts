@@ -0,0 +1,81 @@
+/**
+ * Tests for frontmatter parsing and validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileUserSchema, parseFrontmatter, validateFrontmatter } from '../src/validation.js';
+
+/**
+ * Parse and validate a prompt file
+ */
+function lint(source: string, userSchema?: object) {
+  const parsed = parseFrontmatter(source);
+  return parsed.diagnostics.length > 0
+    ? parsed.diagnostics
+    : validateFrontmatter(parsed.data, source, userSchema && compileUserSchema(userSchema));
+}
+
+describe('Frontmatter validation', () => {
+  describe('parseFrontmatter', () => {
+    it('should report YAML errors with their line and keep the body', () => {
+      const parsed = parseFrontmatter('---\ntitle: Review\ntags: [a, b\n---\nReview {{code}}\n');
+
+      expect(parsed.data).toEqual({});
+      expect(parsed.content).toBe('Review {{code}}\n');
+      expect(parsed.diagnostics).toEqual([
+        {
+          source: 'yaml',
+          message: 'Invalid YAML frontmatter: unexpected end of the stream within a flow collection',
+          line: 4,
+          column: 1
+        }
+      ]);
+    });
+
+    it('should parse valid frontmatter without diagnostics', () => {
+      expect(parseFrontmatter('---\ntitle: Review\n---\nBody')).toEqual({ data: { title: 'Review' }, content: 'Body', diagnostics: [] });
+    });
+  });
+
+  describe('built-in schema', () => {
+    it('should accept valid frontmatter', () => {
+      const source = '---\ntitle: Review\ntags: [a, b]\ndifficulty: advanced\narguments:\n  - code\n  - name: language\n    default: 3\ncustom: anything\n---\nBody';
+
+      expect(lint(source)).toEqual([]);
+    });
+
+    it('should report wrong types and values at the line of the field', () => {
+      const source = '---\ntitle: Review\ndifficulty: expert\ntags: "a,b"\n---\nBody';
+
+      expect(lint(source)).toEqual([
+        { source: 'schema', message: 'difficulty must be one of: beginner, intermediate, advanced', line: 3, field: 'difficulty' },
+        { source: 'schema', message: 'tags must be array', line: 4, field: 'tags' }
+      ]);
+    });
+
+    it('should report invalid argument declarations', () => {
+      const source = '---\narguments:\n  - name: ok\n  - description: no name\n  - bad name\n---\nBody';
+
+      expect(lint(source).map(d => d.message)).toEqual([
+        'arguments[1].name is required',
+        'arguments[2] must match pattern "^[A-Za-z_][A-Za-z0-9_-]*$"'
+      ]);
+    });
+  });
+
+  describe('user schema', () => {
+    it('should apply a user-supplied JSON Schema after the built-in one', () => {
+      const schema = { required: ['author'], properties: { category: { enum: ['development', 'writing'] } } };
+
+      expect(lint('---\ncategory: cooking\n---\nBody', schema)).toEqual([
+        { source: 'user-schema', message: 'author is required', line: 1, field: 'author' },
+        { source: 'user-schema', message: 'category must be one of: development, writing', line: 2, field: 'category' }
+      ]);
+    });
+
+    it('should reject schemas that are not objects', () => {
+      expect(() => compileUserSchema([])).toThrow('Schema must be a JSON object');
+      expect(() => compileUserSchema({ type: 'nonsense' })).toThrow();
+    });
+  });
+});